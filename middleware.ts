@@ -1,19 +1,9 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { Ratelimit } from '@upstash/ratelimit';
-import { kv } from '@vercel/kv';
+import { checkRateLimit } from '@/lib/rateLimit';
+import { getClientIp } from '@/lib/requestInfo';
 
 const isDev = process.env.NODE_ENV === 'development';
-const REQUESTS_PER_WINDOW = 20;
-const WINDOW_SIZE_IN_SECONDS = 30;
-
-const ratelimit = new Ratelimit({
-  redis: kv,
-  limiter: Ratelimit.slidingWindow(
-    REQUESTS_PER_WINDOW,
-    `${WINDOW_SIZE_IN_SECONDS} s`
-  )
-});
 
 export async function middleware(request: NextRequest) {
   const response = NextResponse.next();
@@ -33,11 +23,7 @@ export async function middleware(request: NextRequest) {
     request.nextUrl.pathname.startsWith('/api') ||
     request.nextUrl.pathname.startsWith('/admin')
   ) {
-    // Try to get the real IP behind a proxy
-    const forwardedFor = request.headers.get('x-forwarded-for');
-    const realIp = request.headers.get('x-real-ip');
-    const ip =
-      forwardedFor?.split(',')[0] || realIp || '127.0.0.1';
+    const ip = getClientIp(request);
 
     if (isDev) console.log(`Request from IP: ${ip}`);
 
@@ -47,26 +33,17 @@ export async function middleware(request: NextRequest) {
     }
 
     try {
-      const { success, limit, reset, remaining } = await ratelimit.limit(
-        `${ip}:${request.nextUrl.pathname}`
-      );
+      const { success, headers, group, tier } = await checkRateLimit(request);
 
-      response.headers.set('X-RateLimit-Limit', limit.toString());
-      response.headers.set('X-RateLimit-Remaining', remaining.toString());
-      response.headers.set('X-RateLimit-Reset', reset.toString());
+      Object.entries(headers).forEach(([name, value]) =>
+        response.headers.set(name, value)
+      );
 
       if (!success) {
-        return new NextResponse(
-          JSON.stringify({ error: 'Too Many Requests' }),
-          {
-            status: 429,
-            headers: {
-              'Content-Type': 'application/json',
-              'X-RateLimit-Limit': limit.toString(),
-              'X-RateLimit-Remaining': remaining.toString(),
-              'X-RateLimit-Reset': reset.toString()
-            }
-          }
+        if (isDev) console.log(`Rate limit exceeded: ${group}/${tier} ${ip}`);
+        return NextResponse.json(
+          { error: { code: 'rate_limited', message: 'Too Many Requests' } },
+          { status: 429, headers }
         );
       }
     } catch (error) {
@@ -79,5 +56,7 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/api/:path*', '/admin/:path*']
+  matcher: ['/api/:path*', '/admin/:path*'],
+  // The Redis cache backend needs a TCP connection, which the edge runtime lacks
+  runtime: 'nodejs'
 };
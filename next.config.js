@@ -43,6 +43,20 @@ const nextConfig = {
           }
         ]
       },
+      {
+        // The embeddable widget is loaded by the college websites
+        source: '/site-index.js',
+        headers: [
+          {
+            key: 'Access-Control-Allow-Origin',
+            value: '*'
+          },
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=3600, stale-while-revalidate=86400'
+          }
+        ]
+      },
       {
         // Apply these headers to admin routes
         source: '/admin/:path*',
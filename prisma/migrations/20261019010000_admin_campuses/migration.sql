@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "adminuser" ADD COLUMN "campuses" TEXT[] DEFAULT ARRAY[]::TEXT[];
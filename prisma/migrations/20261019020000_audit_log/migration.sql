@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateEnum
+CREATE TYPE "AuditSource" AS ENUM ('SERVER_ACTION', 'API_ROUTE', 'EDIT_PAGE');
+
+-- CreateTable
+CREATE TABLE "auditlog" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "source" "AuditSource" NOT NULL,
+    "userEmail" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auditlog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auditlog_itemId_idx" ON "auditlog"("itemId");
+
+-- CreateIndex
+CREATE INDEX "auditlog_userEmail_idx" ON "auditlog"("userEmail");
+
+-- CreateIndex
+CREATE INDEX "auditlog_createdAt_idx" ON "auditlog"("createdAt");
@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'RESTORE';
+ALTER TYPE "AuditAction" ADD VALUE 'PURGE';
+
+-- AlterEnum
+ALTER TYPE "AuditSource" ADD VALUE 'CRON';
+
+-- AlterTable
+ALTER TABLE "indexitem" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "indexitem_deletedAt_idx" ON "indexitem"("deletedAt");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "linkcheck" (
+    "id" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "status" INTEGER,
+    "redirectUrl" TEXT,
+    "redirectCount" INTEGER NOT NULL DEFAULT 0,
+    "responseTimeMs" INTEGER,
+    "error" TEXT,
+    "isBroken" BOOLEAN NOT NULL DEFAULT false,
+    "checkedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "linkcheck_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "linkcheck_itemId_key" ON "linkcheck"("itemId");
+
+-- CreateIndex
+CREATE INDEX "linkcheck_isBroken_idx" ON "linkcheck"("isBroken");
+
+-- CreateIndex
+CREATE INDEX "linkcheck_checkedAt_idx" ON "linkcheck"("checkedAt");
+
+-- AddForeignKey
+ALTER TABLE "linkcheck" ADD CONSTRAINT "linkcheck_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "indexitem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "linkcheck" ADD COLUMN "permanentRedirectUrl" TEXT,
+ADD COLUMN "redirectStreak" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "indexitem" ADD COLUMN "extraLetters" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Letters are stored uppercase so lookups can match them exactly
+UPDATE "indexitem" SET "letter" = upper("letter") WHERE "letter" <> upper("letter");
+
+-- CreateIndex
+CREATE INDEX "indexitem_extraLetters_idx" ON "indexitem" USING GIN ("extraLetters");
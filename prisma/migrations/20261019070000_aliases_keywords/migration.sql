@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "indexitem" ADD COLUMN "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "keywords" TEXT[] DEFAULT ARRAY[]::TEXT[];
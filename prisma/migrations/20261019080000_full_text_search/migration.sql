@@ -0,0 +1,21 @@
+-- Trigram similarity for typo-tolerant title matching
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Generated columns need an immutable expression; array_to_string is only stable
+CREATE OR REPLACE FUNCTION indexitem_search_vector(title TEXT, aliases TEXT[], keywords TEXT[])
+RETURNS tsvector
+LANGUAGE sql IMMUTABLE PARALLEL SAFE AS $$
+  SELECT setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(array_to_string(aliases, ' '), '')), 'B')
+    || setweight(to_tsvector('english', coalesce(array_to_string(keywords, ' '), '')), 'C')
+$$;
+
+-- AlterTable
+ALTER TABLE "indexitem" ADD COLUMN "searchVector" tsvector
+  GENERATED ALWAYS AS (indexitem_search_vector("title", "aliases", "keywords")) STORED;
+
+-- CreateIndex
+CREATE INDEX "indexitem_searchVector_idx" ON "indexitem" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "indexitem_title_trgm_idx" ON "indexitem" USING GIN ("title" gin_trgm_ops);
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "campus" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "domain" TEXT,
+    "primaryColor" TEXT,
+    "secondaryColor" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campus_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campus_slug_key" ON "campus"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campus_name_key" ON "campus"("name");
+
+-- Seed the campuses that used to be hard-coded in the app; colors are set in the admin
+INSERT INTO "campus" ("id", "slug", "name", "domain", "updatedAt") VALUES
+    (gen_random_uuid()::TEXT, 'csm', 'College of San Mateo', 'collegeofsanmateo.edu', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'canada', 'Cañada College', 'canadacollege.edu', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'district', 'District Office', 'smccd.edu', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'skyline', 'Skyline College', 'skylinecollege.edu', CURRENT_TIMESTAMP);
+
+-- Point spelling variants such as "Canada College" or "skyline college " at the canonical name
+UPDATE "indexitem" i
+SET "campus" = c."name"
+FROM "campus" c
+WHERE i."campus" <> c."name"
+  AND lower(translate(trim(i."campus"), 'Ññ', 'Nn')) = lower(translate(c."name", 'Ññ', 'Nn'));
+
+UPDATE "adminuser" u
+SET "campuses" = ARRAY(
+    SELECT COALESCE(c."name", item)
+    FROM unnest(u."campuses") AS item
+    LEFT JOIN "campus" c
+      ON lower(translate(trim(item), 'Ññ', 'Nn')) = lower(translate(c."name", 'Ññ', 'Nn'))
+);
+
+-- Any other campus still in use gets its own row so no item is left without one
+INSERT INTO "campus" ("id", "slug", "name", "updatedAt")
+SELECT gen_random_uuid()::TEXT,
+       trim(BOTH '-' FROM lower(regexp_replace(i."campus", '[^A-Za-z0-9]+', '-', 'g'))) || '-' || substr(md5(i."campus"), 1, 6),
+       i."campus",
+       CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "campus" FROM "indexitem") i
+WHERE NOT EXISTS (SELECT 1 FROM "campus" c WHERE c."name" = i."campus");
+
+-- AddForeignKey
+ALTER TABLE "indexitem" ADD CONSTRAINT "indexitem_campus_fkey" FOREIGN KEY ("campus") REFERENCES "campus"("name") ON DELETE RESTRICT ON UPDATE CASCADE;
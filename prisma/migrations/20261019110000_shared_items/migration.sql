@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "indexitem" ADD COLUMN "sharedCampuses" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "districtWide" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "indexitem_sharedCampuses_idx" ON "indexitem" USING GIN ("sharedCampuses");
@@ -0,0 +1,28 @@
+-- Accent stripping for letters saved before they were normalized
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Accented letters are filed under their base letter, so 'Ñ' becomes 'N'
+UPDATE "indexitem"
+SET "letter" = upper(unaccent("letter"))
+WHERE "letter" <> upper(unaccent("letter"))
+  AND length(upper(unaccent("letter"))) = 1
+  AND strpos('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', upper(unaccent("letter"))) > 0;
+
+-- Extra letters are normalized, unique, in index order and without the primary letter
+UPDATE "indexitem" AS item
+SET "extraLetters" = ARRAY(
+  SELECT normalized.letter
+  FROM (
+    SELECT DISTINCT upper(unaccent(extra)) AS letter
+    FROM unnest(item."extraLetters") AS extra
+  ) AS normalized
+  WHERE length(normalized.letter) = 1
+    AND strpos('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', normalized.letter) > 0
+    AND normalized.letter <> item."letter"
+  ORDER BY strpos('ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', normalized.letter)
+)
+WHERE EXISTS (
+  SELECT 1
+  FROM unnest(item."extraLetters") AS extra
+  WHERE extra <> upper(unaccent(extra))
+);
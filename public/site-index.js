@@ -0,0 +1,345 @@
+/**
+ * Embeddable A-Z site index for the college websites.
+ *
+ *   <script src="https://<site-index host>/site-index.js" defer></script>
+ *   <site-index campus="csm" letter="A" theme="light"></site-index>
+ *
+ * Attributes:
+ *   campus - campus slug or name; every campus when left out
+ *   letter - the letter shown first; the first letter with items by default
+ *   theme  - "light" (default) or "dark"
+ *   accent - any CSS color for links and the selected letter
+ *   api    - the site index origin; defaults to where this script was loaded
+ *
+ * Listings come from GET /api/indexItems, the same endpoint the college sites
+ * used to call themselves, so trusted origins keep their CORS and rate limits.
+ */
+(function () {
+  'use strict';
+
+  if (!window.customElements || window.customElements.get('site-index')) {
+    return;
+  }
+
+  var LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'.split('');
+  var SEARCH_DELAY = 250;
+  var script = document.currentScript;
+  var scriptOrigin =
+    script && script.src ? new URL(script.src).origin : window.location.origin;
+
+  var STYLES = `
+    :host {
+      --si-bg: #ffffff;
+      --si-text: #111827;
+      --si-muted: #6b7280;
+      --si-border: #e5e7eb;
+      --si-disabled: #d1d5db;
+      --si-accent: #3730a3;
+      --si-accent-text: #ffffff;
+      --si-mark: #fef08a;
+      display: block;
+      font-family: inherit;
+      color: var(--si-text);
+      background: var(--si-bg);
+    }
+    :host([theme='dark']) {
+      --si-bg: #111827;
+      --si-text: #f9fafb;
+      --si-muted: #9ca3af;
+      --si-border: #374151;
+      --si-disabled: #4b5563;
+      --si-accent: #a5b4fc;
+      --si-accent-text: #111827;
+      --si-mark: #854d0e;
+    }
+    [hidden] { display: none !important; }
+    .search {
+      box-sizing: border-box;
+      width: 100%;
+      padding: 0.5rem 0.75rem;
+      font: inherit;
+      color: inherit;
+      background: transparent;
+      border: 1px solid var(--si-border);
+      border-radius: 0.375rem;
+    }
+    .letters {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+      margin: 0.75rem 0;
+      padding: 0;
+      list-style: none;
+    }
+    .letters button {
+      min-width: 2rem;
+      padding: 0.25rem;
+      font: inherit;
+      font-weight: 600;
+      color: var(--si-accent);
+      background: none;
+      border: 0;
+      border-radius: 0.25rem;
+      cursor: pointer;
+    }
+    .letters button[aria-pressed='true'] {
+      color: var(--si-accent-text);
+      background: var(--si-accent);
+    }
+    .letters button:disabled {
+      color: var(--si-disabled);
+      cursor: default;
+    }
+    .results {
+      display: grid;
+      gap: 0.5rem 2rem;
+      grid-template-columns: repeat(auto-fill, minmax(16rem, 1fr));
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+    .results a {
+      font-weight: 500;
+      color: var(--si-accent);
+      text-decoration: none;
+    }
+    .results a:hover { text-decoration: underline; }
+    .results mark { color: inherit; background: var(--si-mark); }
+    .note { color: var(--si-muted); }
+    .status { margin: 1rem 0; color: var(--si-muted); }
+  `;
+
+  /** Only http(s) links are rendered, whatever the API returns. */
+  function safeUrl(url) {
+    try {
+      var parsed = new URL(url, window.location.href);
+      return parsed.protocol === 'https:' || parsed.protocol === 'http:'
+        ? parsed.href
+        : '';
+    } catch (error) {
+      return '';
+    }
+  }
+
+  function isFiledUnder(entry, letter) {
+    return (
+      entry.letter === letter ||
+      (entry.extraLetters || []).indexOf(letter) !== -1
+    );
+  }
+
+  class SiteIndex extends HTMLElement {
+    static get observedAttributes() {
+      return ['campus', 'letter', 'accent', 'api'];
+    }
+
+    constructor() {
+      super();
+      this.items = [];
+      this.letter = '';
+      this.query = '';
+      this.searchTimer = undefined;
+      // One in-flight request per kind, so a search never cancels the listing
+      this.controllers = {};
+
+      var root = this.attachShadow({ mode: 'open' });
+      root.innerHTML = `
+        <style>${STYLES}</style>
+        <input class="search" type="search" placeholder="Search the index" aria-label="Search the index">
+        <ul class="letters" aria-label="Letters"></ul>
+        <p class="status" role="status"></p>
+        <ul class="results"></ul>
+      `;
+      this.searchInput = root.querySelector('.search');
+      this.letterBar = root.querySelector('.letters');
+      this.status = root.querySelector('.status');
+      this.results = root.querySelector('.results');
+
+      LETTERS.forEach((letter) => {
+        var item = document.createElement('li');
+        var button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = letter;
+        button.dataset.letter = letter;
+        item.appendChild(button);
+        this.letterBar.appendChild(item);
+      });
+
+      this.letterBar.addEventListener('click', (event) => {
+        var button = event.target.closest('button');
+        if (!button || button.disabled) return;
+        this.letter = button.dataset.letter;
+        this.query = '';
+        this.searchInput.value = '';
+        this.render();
+      });
+
+      this.searchInput.addEventListener('input', () => {
+        clearTimeout(this.searchTimer);
+        this.searchTimer = setTimeout(
+          () => this.search(this.searchInput.value.trim()),
+          SEARCH_DELAY
+        );
+      });
+    }
+
+    connectedCallback() {
+      this.applyAccent();
+      this.load();
+    }
+
+    disconnectedCallback() {
+      clearTimeout(this.searchTimer);
+      Object.keys(this.controllers).forEach((kind) => {
+        this.controllers[kind].abort();
+      });
+    }
+
+    attributeChangedCallback(name, oldValue, newValue) {
+      if (!this.isConnected || oldValue === newValue) return;
+      if (name === 'letter') {
+        this.letter = (newValue || '').toUpperCase();
+        this.render();
+      } else if (name === 'accent') {
+        this.applyAccent();
+      } else {
+        this.load();
+      }
+    }
+
+    get apiOrigin() {
+      return (this.getAttribute('api') || scriptOrigin).replace(/\/+$/, '');
+    }
+
+    applyAccent() {
+      var accent = this.getAttribute('accent');
+      if (accent) this.style.setProperty('--si-accent', accent);
+      else this.style.removeProperty('--si-accent');
+    }
+
+    /** Fetches from /api/indexItems, cancelling an older request of this kind. */
+    fetchItems(params) {
+      var kind = params.search ? 'search' : 'listing';
+      if (this.controllers[kind]) this.controllers[kind].abort();
+      var controller = new AbortController();
+      this.controllers[kind] = controller;
+
+      var url = new URL('/api/indexItems', this.apiOrigin);
+      var campus = this.getAttribute('campus');
+      if (campus) url.searchParams.set('campus', campus);
+      Object.keys(params).forEach((key) => {
+        url.searchParams.set(key, params[key]);
+      });
+
+      return fetch(url.href, { signal: controller.signal }).then((response) => {
+        if (!response.ok) {
+          throw new Error(`Site index request failed: ${response.status}`);
+        }
+        return response.json();
+      });
+    }
+
+    /** Loads the whole campus listing once; letters are filtered locally. */
+    load() {
+      this.setStatus('Loading…');
+      this.fetchItems({})
+        .then((items) => {
+          this.items = items;
+          var requested = (this.getAttribute('letter') || '').toUpperCase();
+          this.letter =
+            LETTERS.indexOf(requested) !== -1
+              ? requested
+              : LETTERS.find((letter) => this.countFor(letter) > 0) || 'A';
+          this.render();
+        })
+        .catch((error) => this.handleError(error));
+    }
+
+    search(query) {
+      this.query = query;
+      if (!query) {
+        this.render();
+        return;
+      }
+      this.setStatus('Searching…');
+      this.fetchItems({ search: query })
+        .then((matches) => {
+          if (this.query !== query) return;
+          this.renderResults(
+            matches,
+            matches.length === 0 ? `No results for "${query}".` : ''
+          );
+          this.updateLetterBar(true);
+        })
+        .catch((error) => this.handleError(error));
+    }
+
+    countFor(letter) {
+      return this.items.filter((entry) => isFiledUnder(entry, letter)).length;
+    }
+
+    render() {
+      if (this.query) return;
+      var entries = this.items.filter((entry) =>
+        isFiledUnder(entry, this.letter)
+      );
+      this.renderResults(
+        entries,
+        entries.length === 0 ? `No items under ${this.letter}.` : ''
+      );
+      this.updateLetterBar(false);
+    }
+
+    updateLetterBar(searching) {
+      this.letterBar.querySelectorAll('button').forEach((button) => {
+        var count = this.countFor(button.dataset.letter);
+        button.disabled = count === 0;
+        button.setAttribute(
+          'aria-pressed',
+          String(!searching && button.dataset.letter === this.letter)
+        );
+        button.setAttribute(
+          'aria-label',
+          `${button.dataset.letter}, ${count} ${count === 1 ? 'item' : 'items'}`
+        );
+      });
+    }
+
+    renderResults(entries, emptyMessage) {
+      this.results.textContent = '';
+      entries.forEach((entry) => {
+        var href = safeUrl(entry.url);
+        if (!href) return;
+        var item = document.createElement('li');
+        var link = document.createElement('a');
+        link.href = href;
+        // Search highlights are escaped by the API apart from their <mark> tags
+        if (entry.highlight) link.innerHTML = entry.highlight;
+        else link.textContent = entry.title;
+        item.appendChild(link);
+        if (entry.aliasOf) {
+          var note = document.createElement('span');
+          note.className = 'note';
+          note.textContent = ` — see ${entry.aliasOf}`;
+          item.appendChild(note);
+        }
+        this.results.appendChild(item);
+      });
+      this.setStatus(emptyMessage);
+    }
+
+    setStatus(message) {
+      this.status.textContent = message;
+      this.status.hidden = !message;
+    }
+
+    handleError(error) {
+      if (error && error.name === 'AbortError') return;
+      console.error(error);
+      this.results.textContent = '';
+      this.setStatus('The site index is unavailable right now.');
+    }
+  }
+
+  window.customElements.define('site-index', SiteIndex);
+})();
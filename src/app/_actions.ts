@@ -3,31 +3,93 @@ import {
   createIndexItem,
   updateIndexItem,
   deleteIndexItem,
+  getIndexItemById,
   searchIndexItems as searchFromLib
 } from '../lib/indexItems';
 import { revalidatePath } from 'next/cache';
-import { purgeAndWarmCache } from '../lib/cache';
+import { invalidateIndexCache } from '../lib/cache';
+import { authorize, authorizeCampus } from '../lib/auth';
+import { canEditCampus } from '../lib/roles';
+import { getRedirectSuggestions } from '../lib/linkChecker';
+import { purgeIndexItem, restoreIndexItem } from '../lib/trash';
+import { getIndexItemRevision } from '../lib/audit';
+import { buildImportPreview, importIndexItems } from '../lib/importIndexItems';
+import { findLikelyDuplicates, mergeIndexItems } from '../lib/duplicates';
+import { API_KEY_SCOPE_LABELS, createApiKey } from '../lib/apiKeys';
+import { getCampusNames, getNewlySharedCampuses } from '../lib/campuses';
+import { checkCampuses, describePrismaError } from '../lib/apiErrors';
+import type { ApiKeyScope } from '@prisma/client';
+import {
+  indexItemSchema,
+  type IndexItemDetails,
+  type IndexItemInput
+} from '../lib/indexItemSchema';
 
 const isDev = process.env.NODE_ENV === 'development';
 
+// Every A-Z page shows per-letter counts in its jump bar, so any change refreshes them all
+function revalidateLetterPages() {
+  revalidatePath('/letter', 'layout');
+}
+
+// Turns an error from the lib into a message the form can show
+function describeActionError(error: unknown, fallback: string) {
+  if (typeof error === 'string') return error;
+  return describePrismaError(error)?.body.message ?? fallback;
+}
+
+// Applies the schema the forms and the API share, so a call that skips the form still gets checked
+async function validateIndexItem(values: IndexItemInput) {
+  const parsed = indexItemSchema.safeParse(values);
+  if (!parsed.success) {
+    return parsed.error.issues.map((issue) => issue.message).join(', ');
+  }
+  // Shared campuses have no foreign key to catch a typo
+  const campusErrors = checkCampuses(values, await getCampusNames(true));
+  if (campusErrors.length > 0) {
+    return campusErrors.map((error) => error.message).join(', ');
+  }
+  return undefined;
+}
+
 export async function createIndexItemAction(
   title: string,
   url: string,
   letter: string,
-  campus: string
+  campus: string,
+  details: IndexItemDetails = {}
 ) {
+  const validationError = await validateIndexItem({
+    title,
+    url,
+    letter,
+    campus,
+    ...details
+  });
+  if (validationError) {
+    return { error: validationError };
+  }
+  const { session, error: authError } = await authorizeCampus(
+    campus,
+    ...(await getNewlySharedCampuses(details))
+  );
+  if (authError) {
+    return { error: authError };
+  }
   const { newIndexItem, error } = await createIndexItem(
     title,
     url,
     letter,
-    campus
+    campus,
+    { email: session.user.email, source: 'SERVER_ACTION' },
+    details
   );
   if (error) {
     console.error(error);
-    return { error };
+    return { error: 'Unable to create the index item' };
   } else {
-    await purgeAndWarmCache();
-    revalidatePath(`/letter/${letter}`);
+    await invalidateIndexCache([newIndexItem]);
+    revalidateLetterPages();
     revalidatePath('/indexItems');
     return { newIndexItem };
   }
@@ -38,38 +100,111 @@ export async function updateIndexItemAction(
   title: string,
   url: string,
   letter: string,
-  campus: string
+  campus: string,
+  details: IndexItemDetails = {}
 ) {
+  const validationError = await validateIndexItem({
+    title,
+    url,
+    letter,
+    campus,
+    ...details
+  });
+  if (validationError) {
+    return { error: validationError };
+  }
+  const { indexItem, error: lookupError } = await getIndexItemById(id);
+  if (lookupError) {
+    console.error('Error in updateIndexItemAction:', lookupError);
+    return {
+      error: describeActionError(lookupError, 'Unable to load the index item')
+    };
+  }
+  if (!indexItem) {
+    return { error: 'Index item not found' };
+  }
+  const { session, error: authError } = await authorizeCampus(
+    indexItem.campus,
+    campus,
+    ...(await getNewlySharedCampuses(details, indexItem))
+  );
+  if (authError) {
+    return { error: authError };
+  }
   const { updatedItem, error } = await updateIndexItem(
     id,
     title,
     url,
     letter,
-    campus
+    campus,
+    { email: session.user.email, source: 'SERVER_ACTION' },
+    details
   );
   if (error) {
-    console.error(error);
-    return { error };
+    console.error('Error in updateIndexItemAction:', error);
+    return {
+      error: describeActionError(error, 'Unable to update the index item')
+    };
   } else {
-    await purgeAndWarmCache();
-    revalidatePath(`/letter/${letter}`);
+    await invalidateIndexCache([indexItem, updatedItem]);
+    revalidateLetterPages();
     revalidatePath('/indexItems');
     return { updatedItem };
   }
 }
 
+export async function revertIndexItemAction(id: string, revisionId: string) {
+  const { snapshot, error } = await getIndexItemRevision(id, revisionId);
+  if (error) {
+    console.error(error);
+    return {
+      error: typeof error === 'string' ? error : 'Unable to load the version'
+    };
+  }
+  // Fields that older versions did not record are left unchanged
+  const { updatedItem, error: updateError } = await updateIndexItemAction(
+    id,
+    snapshot.title,
+    snapshot.url,
+    snapshot.letter,
+    snapshot.campus,
+    {
+      extraLetters: snapshot.extraLetters,
+      aliases: snapshot.aliases,
+      keywords: snapshot.keywords,
+      sharedCampuses: snapshot.sharedCampuses,
+      districtWide: snapshot.districtWide
+    }
+  );
+  if (updateError) {
+    return { error: updateError };
+  }
+  return { updatedItem };
+}
+
 export async function deleteIndexItemAction(id: string) {
   if (isDev) console.log(`ACTION: Attempting to delete item with ID: ${id}`);
+  const { indexItem } = await getIndexItemById(id);
+  if (!indexItem) {
+    throw new Error('Index item not found');
+  }
+  const { session, error: authError } = await authorizeCampus(indexItem.campus);
+  if (authError) {
+    throw new Error(authError);
+  }
   try {
-    const { deletedItem, error } = await deleteIndexItem(id);
+    const { deletedItem, error } = await deleteIndexItem(id, {
+      email: session.user.email,
+      source: 'SERVER_ACTION'
+    });
     if (error) {
       console.error('Error in deleteIndexItemAction:', error);
       throw error;
     }
     if (isDev) console.log('Deleted item in action:', deletedItem);
-    await purgeAndWarmCache();
+    await invalidateIndexCache([indexItem]);
     if (deletedItem) {
-      revalidatePath(`/letter/${deletedItem.letter}`);
+      revalidateLetterPages();
     }
     revalidatePath('/admin');
     return { deletedItem };
@@ -79,7 +214,219 @@ export async function deleteIndexItemAction(id: string) {
   }
 }
 
+export async function restoreIndexItemAction(id: string) {
+  const { indexItem } = await getIndexItemById(id);
+  if (!indexItem) {
+    return { error: 'Index item not found' };
+  }
+  const { session, error: authError } = await authorizeCampus(indexItem.campus);
+  if (authError) {
+    return { error: authError };
+  }
+  const { restoredItem, error } = await restoreIndexItem(id, {
+    email: session.user.email,
+    source: 'SERVER_ACTION'
+  });
+  if (error) {
+    console.error('Error in restoreIndexItemAction:', error);
+    return { error: describeActionError(error, 'Unable to restore the index item') };
+  }
+  await invalidateIndexCache([restoredItem]);
+  revalidateLetterPages();
+  revalidatePath('/admin/trash');
+  return { restoredItem };
+}
+
+export async function purgeIndexItemAction(id: string) {
+  const { indexItem } = await getIndexItemById(id);
+  if (!indexItem) {
+    return { error: 'Index item not found' };
+  }
+  const { session, error: authError } = await authorizeCampus(indexItem.campus);
+  if (authError) {
+    return { error: authError };
+  }
+  const { purgedItem, error } = await purgeIndexItem(id, {
+    email: session.user.email,
+    source: 'SERVER_ACTION'
+  });
+  if (error) {
+    console.error('Error in purgeIndexItemAction:', error);
+    return { error: describeActionError(error, 'Unable to delete the index item') };
+  }
+  revalidatePath('/admin/trash');
+  return { purgedItem };
+}
+
+export async function previewImportAction(csvText: string) {
+  const { session, error: authError } = await authorize('CAMPUS_EDITOR');
+  if (authError) {
+    return { error: authError };
+  }
+  const { rows, error } = await buildImportPreview(csvText, session.user);
+  if (error) {
+    console.error('Error in previewImportAction:', error);
+    return {
+      error: typeof error === 'string' ? error : 'Unable to read the file'
+    };
+  }
+  return { rows };
+}
+
+export async function importIndexItemsAction(
+  csvText: string,
+  includeDuplicates: boolean
+) {
+  const { session, error: authError } = await authorize('CAMPUS_EDITOR');
+  if (authError) {
+    return { error: authError };
+  }
+  // Re-validate on the server; never trust the preview the client sends back
+  const { rows, error } = await buildImportPreview(csvText, session.user);
+  if (error) {
+    console.error('Error in importIndexItemsAction:', error);
+    return {
+      error: typeof error === 'string' ? error : 'Unable to read the file'
+    };
+  }
+  const validRows = rows.filter(
+    (row) => row.errors.length === 0 && (includeDuplicates || !row.duplicateOf)
+  );
+  if (validRows.length === 0) {
+    return { error: 'There are no valid rows to import' };
+  }
+
+  const { importedItems, error: importError } = await importIndexItems(
+    validRows.map(({ title, url, letter, campus }) => ({
+      title,
+      url,
+      letter,
+      campus
+    })),
+    { email: session.user.email, source: 'SERVER_ACTION' }
+  );
+  if (importError) {
+    console.error('Error in importIndexItemsAction:', importError);
+    return { error: 'The import failed and no rows were saved' };
+  }
+
+  await invalidateIndexCache(importedItems);
+  revalidateLetterPages();
+  revalidatePath('/admin');
+  return { importedCount: importedItems.length };
+}
+
+export async function acceptRedirectSuggestionsAction(itemIds: string[]) {
+  const { session, error: authError } = await authorize('CAMPUS_EDITOR');
+  if (authError) {
+    return { error: authError };
+  }
+  // Look the new URLs up again rather than trusting the client
+  const { suggestions, error } = await getRedirectSuggestions();
+  if (error) {
+    console.error('Error in acceptRedirectSuggestionsAction:', error);
+    return { error: 'Unable to load redirect suggestions' };
+  }
+
+  const accepted = suggestions.filter(
+    (suggestion) =>
+      itemIds.includes(suggestion.itemId) &&
+      canEditCampus(session.user, suggestion.campus)
+  );
+  const updatedItems = [];
+  for (const suggestion of accepted) {
+    const { indexItem } = await getIndexItemById(suggestion.itemId);
+    if (!indexItem) continue;
+    const { updatedItem, error: updateError } = await updateIndexItem(
+      indexItem.id,
+      indexItem.title,
+      suggestion.newUrl,
+      indexItem.letter,
+      indexItem.campus,
+      { email: session.user.email, source: 'SERVER_ACTION' }
+    );
+    if (updateError) {
+      console.error(
+        `Error accepting redirect for item ${indexItem.id}:`,
+        updateError
+      );
+    } else {
+      updatedItems.push(updatedItem);
+    }
+  }
+
+  if (updatedItems.length > 0) {
+    await invalidateIndexCache(updatedItems);
+    revalidateLetterPages();
+  }
+  revalidatePath('/admin/redirects');
+  return { updatedCount: updatedItems.length };
+}
+
+export async function findLikelyDuplicatesAction(
+  title: string,
+  url: string,
+  excludeId?: string
+) {
+  const { error: authError } = await authorize('CAMPUS_EDITOR');
+  if (authError) {
+    return { error: authError };
+  }
+  const { duplicates, error } = await findLikelyDuplicates(
+    { title, url },
+    excludeId
+  );
+  if (error) {
+    console.error('Error in findLikelyDuplicatesAction:', error);
+    return { error: 'Unable to check for duplicates' };
+  }
+  return { duplicates };
+}
+
+export async function mergeDuplicatesAction(
+  keepId: string,
+  removeIds: string[],
+  share = false
+) {
+  const { session, error: authError } = await authorize('CAMPUS_EDITOR');
+  if (authError) {
+    return { error: authError };
+  }
+  const items = await Promise.all(
+    [keepId, ...removeIds].map(
+      async (id) => (await getIndexItemById(id)).indexItem
+    )
+  );
+  if (items.some((item) => !item)) {
+    return { error: 'Index item not found' };
+  }
+  if (items.some((item) => !canEditCampus(session.user, item.campus))) {
+    return {
+      error: 'You do not have permission to edit every item in this group'
+    };
+  }
+
+  const { keptItem, removedItems, error } = await mergeIndexItems(
+    keepId,
+    removeIds,
+    { email: session.user.email, source: 'SERVER_ACTION' },
+    share
+  );
+  if (error) {
+    console.error('Error in mergeDuplicatesAction:', error);
+    return { error: 'Unable to merge the duplicates' };
+  }
+  await invalidateIndexCache([keptItem, ...removedItems]);
+  revalidateLetterPages();
+  revalidatePath('/admin/duplicates');
+  return { removedCount: removedItems.length };
+}
+
 export async function searchIndexItems(query: string, campus?: string) {
+  const { error: authError } = await authorize('VIEWER');
+  if (authError) {
+    return [];
+  }
   // Use the lib function directly instead of fetch (server action can't use relative URLs)
   const { results, error } = await searchFromLib(query, campus);
   if (error) {
@@ -88,3 +435,37 @@ export async function searchIndexItems(query: string, campus?: string) {
   }
   return results || [];
 }
+
+export async function createApiKeyAction(
+  label: string,
+  owner: string,
+  scopes: ApiKeyScope[],
+  expiresAt?: string
+) {
+  const { session, error: authError } = await authorize('DISTRICT_ADMIN');
+  if (authError) {
+    return { error: authError };
+  }
+  const validScopes = scopes.filter((scope) => scope in API_KEY_SCOPE_LABELS);
+  if (!label.trim() || !owner.trim() || validScopes.length === 0) {
+    return { error: 'A label, an owner and at least one scope are required' };
+  }
+  const expiry = expiresAt ? new Date(expiresAt) : null;
+  if (expiry && isNaN(expiry.getTime())) {
+    return { error: 'The expiry date is invalid' };
+  }
+
+  const { token, error } = await createApiKey(
+    label,
+    owner,
+    validScopes,
+    expiry,
+    session.user.email
+  );
+  if (error) {
+    console.error('Error in createApiKeyAction:', error);
+    return { error: 'Unable to create the API key' };
+  }
+  revalidatePath('/admin/api-keys');
+  return { token };
+}
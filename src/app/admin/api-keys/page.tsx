@@ -0,0 +1,130 @@
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import ApiKeyForm from '@/app/components/ApiKeyForm';
+import { authorize } from '@/lib/auth';
+import { API_KEY_SCOPE_LABELS, getApiKeys, revokeApiKey } from '@/lib/apiKeys';
+
+export const metadata = {
+  title: 'API Keys | Site Index'
+};
+
+function formatDate(date: Date | null) {
+  return date ? date.toLocaleDateString('en-US') : '—';
+}
+
+export default async function AdminApiKeysPage() {
+  const { error } = await authorize('DISTRICT_ADMIN');
+  if (error) {
+    redirect('/admin');
+  }
+  const { apiKeys } = await getApiKeys();
+  const now = new Date();
+
+  async function revokeApiKeyAction(formData: FormData): Promise<void> {
+    'use server';
+
+    const { error } = await authorize('DISTRICT_ADMIN');
+    if (error) {
+      redirect('/admin');
+    }
+
+    const { error: revokeError } = await revokeApiKey(
+      formData.get('id') as string
+    );
+    if (revokeError) {
+      console.error('Error revoking API key:', revokeError);
+    }
+    revalidatePath('/admin/api-keys');
+  }
+
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">API Keys</h1>
+      <div className="px-8 py-6 space-y-8">
+        <p className="max-w-3xl text-sm text-gray-600">
+          API keys let other systems use the index API without a browser. Send
+          the key as <code>Authorization: Bearer &lt;key&gt;</code>. Read keys
+          skip the user-agent checks and get their own rate limit. Write keys
+          can create, change and delete items on the campuses the owner is
+          allowed to edit.
+        </p>
+        <ApiKeyForm scopeLabels={API_KEY_SCOPE_LABELS} />
+        <table className="min-w-full max-w-3xl bg-white border divide-y divide-gray-300 rounded-md">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                Label
+              </th>
+              <th className="py-3.5 text-left text-sm font-semibold text-gray-900">
+                Key
+              </th>
+              <th className="py-3.5 text-left text-sm font-semibold text-gray-900">
+                Owner
+              </th>
+              <th className="py-3.5 text-left text-sm font-semibold text-gray-900">
+                Scopes
+              </th>
+              <th className="py-3.5 text-left text-sm font-semibold text-gray-900">
+                Expires
+              </th>
+              <th className="py-3.5 text-left text-sm font-semibold text-gray-900">
+                Last used
+              </th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {(apiKeys ?? []).map((apiKey) => {
+              const expired = apiKey.expiresAt && apiKey.expiresAt <= now;
+              return (
+                <tr key={apiKey.id} className="border-b-2 border-b-slate-100">
+                  <td className="py-3 pl-4 pr-3 text-sm text-gray-900">
+                    {apiKey.label}
+                    <div className="text-xs text-gray-500">
+                      Created {formatDate(apiKey.createdAt)}
+                      {apiKey.createdBy && ` by ${apiKey.createdBy}`}
+                    </div>
+                  </td>
+                  <td className="py-3 font-mono text-xs text-gray-700">
+                    {apiKey.prefix}…
+                  </td>
+                  <td className="py-3 text-sm text-gray-900">{apiKey.owner}</td>
+                  <td className="py-3 text-sm text-gray-900">
+                    {apiKey.scopes
+                      .map((scope) => API_KEY_SCOPE_LABELS[scope])
+                      .join(', ')}
+                  </td>
+                  <td className="py-3 text-sm text-gray-900">
+                    {formatDate(apiKey.expiresAt)}
+                  </td>
+                  <td className="py-3 text-sm text-gray-900">
+                    {formatDate(apiKey.lastUsedAt)}
+                  </td>
+                  <td className="px-3 py-3">
+                    {apiKey.revokedAt ? (
+                      <span className="text-sm text-gray-500">Revoked</span>
+                    ) : expired ? (
+                      <span className="text-sm text-gray-500">Expired</span>
+                    ) : (
+                      <form action={revokeApiKeyAction}>
+                        <input type="hidden" name="id" value={apiKey.id} />
+                        <button
+                          type="submit"
+                          className="px-3 py-1 text-sm font-semibold text-red-900 bg-red-200 rounded shadow-sm hover:bg-red-300"
+                        >
+                          Revoke <span className="sr-only">{apiKey.label}</span>
+                        </button>
+                      </form>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import SubmitButton from '@/app/components/SubmitButton';
+import { authorize } from '@/lib/auth';
+import { invalidateIndexCache } from '@/lib/cache';
+import { campusSchema, getCampuses, saveCampus } from '@/lib/campuses';
+
+export const metadata = {
+  title: 'Campuses | Site Index'
+};
+
+const inputClassName =
+  'block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6';
+
+export default async function AdminCampusesPage() {
+  const { error } = await authorize('DISTRICT_ADMIN');
+  if (error) {
+    redirect('/admin');
+  }
+  const { campuses } = await getCampuses(true);
+
+  async function saveCampusAction(formData: FormData): Promise<void> {
+    'use server';
+
+    const { error } = await authorize('DISTRICT_ADMIN');
+    if (error) {
+      redirect('/admin');
+    }
+
+    const id = (formData.get('id') as string) || undefined;
+    const parsed = campusSchema.safeParse({
+      slug: formData.get('slug'),
+      name: formData.get('name'),
+      domain: formData.get('domain') || '',
+      primaryColor: formData.get('primaryColor') || '',
+      secondaryColor: formData.get('secondaryColor') || '',
+      active: formData.get('active') === 'on'
+    });
+    if (!parsed.success) {
+      console.error('Invalid campus:', parsed.error.issues);
+      return;
+    }
+
+    const {
+      campus,
+      previousName,
+      error: saveError
+    } = await saveCampus(id, parsed.data);
+    if (saveError) {
+      console.error('Error saving campus:', saveError);
+      return;
+    }
+    // Renames and deactivations change listings, filters and forms everywhere
+    await invalidateIndexCache([
+      { campus: previousName },
+      { campus: campus.name }
+    ]);
+    revalidatePath('/', 'layout');
+  }
+
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">Campuses</h1>
+      <div className="px-8 py-6 space-y-8">
+        <p className="max-w-3xl text-sm text-gray-600">
+          Campuses appear in the forms, filters and API. The slug is what the
+          API accepts in <code>?campus=</code>, alongside the name. Renaming a
+          campus moves its items and editors with it. Inactive campuses are
+          hidden from filters and new items but keep their existing items.
+        </p>
+        <form
+          action={saveCampusAction}
+          className="grid max-w-3xl grid-cols-3 gap-4"
+        >
+          <div>
+            <label
+              className="block text-sm font-medium leading-6 text-gray-900"
+              htmlFor="name"
+            >
+              Name
+            </label>
+            <input
+              id="name"
+              name="name"
+              type="text"
+              required
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              className="block text-sm font-medium leading-6 text-gray-900"
+              htmlFor="slug"
+            >
+              Slug
+            </label>
+            <input
+              id="slug"
+              name="slug"
+              type="text"
+              required
+              pattern="[a-z0-9]+(-[a-z0-9]+)*"
+              placeholder="skyline"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              className="block text-sm font-medium leading-6 text-gray-900"
+              htmlFor="domain"
+            >
+              Domain
+            </label>
+            <input
+              id="domain"
+              name="domain"
+              type="text"
+              placeholder="skylinecollege.edu"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              className="block text-sm font-medium leading-6 text-gray-900"
+              htmlFor="primaryColor"
+            >
+              Primary color
+            </label>
+            <input
+              id="primaryColor"
+              name="primaryColor"
+              type="text"
+              pattern="#[0-9a-fA-F]{6}"
+              placeholder="#1c3f94"
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label
+              className="block text-sm font-medium leading-6 text-gray-900"
+              htmlFor="secondaryColor"
+            >
+              Secondary color
+            </label>
+            <input
+              id="secondaryColor"
+              name="secondaryColor"
+              type="text"
+              pattern="#[0-9a-fA-F]{6}"
+              placeholder="#ffffff"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex items-end gap-4">
+            <label className="flex items-center text-sm font-medium leading-6 text-gray-900">
+              <input
+                type="checkbox"
+                name="active"
+                defaultChecked
+                className="w-4 h-4 mr-2 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+              />
+              Active
+            </label>
+            <SubmitButton>Add Campus</SubmitButton>
+          </div>
+        </form>
+        <table className="min-w-full max-w-3xl bg-white border divide-y divide-gray-300 rounded-md">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                Name
+              </th>
+              <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                Slug
+              </th>
+              <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                Domain
+              </th>
+              <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                Colors
+              </th>
+              <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                Active
+              </th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {(campuses ?? []).map((campus) => {
+              // The row's inputs belong to the form in its last cell
+              const formId = `campus-${campus.id}`;
+              return (
+                <tr key={campus.id} className="border-b-2 border-b-slate-100">
+                  <td className="py-3 pl-4 pr-3">
+                    <input
+                      form={formId}
+                      name="name"
+                      type="text"
+                      required
+                      defaultValue={campus.name}
+                      aria-label="Name"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      form={formId}
+                      name="slug"
+                      type="text"
+                      required
+                      pattern="[a-z0-9]+(-[a-z0-9]+)*"
+                      defaultValue={campus.slug}
+                      aria-label="Slug"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      form={formId}
+                      name="domain"
+                      type="text"
+                      defaultValue={campus.domain ?? ''}
+                      aria-label="Domain"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <div className="flex gap-2">
+                      <input
+                        form={formId}
+                        name="primaryColor"
+                        type="text"
+                        pattern="#[0-9a-fA-F]{6}"
+                        defaultValue={campus.primaryColor ?? ''}
+                        aria-label="Primary color"
+                        className={inputClassName}
+                      />
+                      <input
+                        form={formId}
+                        name="secondaryColor"
+                        type="text"
+                        pattern="#[0-9a-fA-F]{6}"
+                        defaultValue={campus.secondaryColor ?? ''}
+                        aria-label="Secondary color"
+                        className={inputClassName}
+                      />
+                    </div>
+                  </td>
+                  <td className="px-3 py-3">
+                    <input
+                      form={formId}
+                      type="checkbox"
+                      name="active"
+                      defaultChecked={campus.active}
+                      aria-label="Active"
+                      className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+                    />
+                  </td>
+                  <td className="px-3 py-3">
+                    <form id={formId} action={saveCampusAction}>
+                      <input type="hidden" name="id" value={campus.id} />
+                      <button
+                        type="submit"
+                        className="px-3 py-1 text-sm font-semibold text-indigo-900 bg-indigo-200 rounded shadow-sm hover:bg-indigo-300"
+                      >
+                        Save <span className="sr-only">{campus.name}</span>
+                      </button>
+                    </form>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import Link from 'next/link';
+import DuplicateGroups from '@/components/DuplicateGroups';
+import { getSession } from '@/lib/auth';
+import { getCampusNames } from '@/lib/campuses';
+import { getDuplicateGroups } from '@/lib/duplicates';
+import { canEditCampus } from '@/lib/roles';
+import { cn } from '@/lib/utils';
+
+export const metadata = {
+  title: 'Duplicates | Site Index'
+};
+
+const SCOPES = [
+  { value: 'all', label: 'All' },
+  { value: 'campus', label: 'Within a campus' },
+  { value: 'cross', label: 'Across campuses' }
+];
+
+interface AdminDuplicatesPageProps {
+  searchParams: Promise<{ scope?: string }>;
+}
+
+export default async function AdminDuplicatesPage({
+  searchParams
+}: AdminDuplicatesPageProps) {
+  const { scope = 'all' } = await searchParams;
+  const session = await getSession();
+  const { groups, error } = await getDuplicateGroups();
+  const editableCampuses = (await getCampusNames(true)).filter((campus) =>
+    canEditCampus(session?.user, campus)
+  );
+  const visibleGroups = (groups ?? []).filter(
+    (group) => scope === 'all' || (scope === 'cross') === group.crossCampus
+  );
+
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">Duplicates</h1>
+      <p className="max-w-3xl px-5 pt-3 text-sm text-gray-600">
+        Items are grouped when their URLs or titles match after ignoring case,
+        punctuation, &quot;&amp;&quot; versus &quot;and&quot;, and trailing
+        slashes. Merging keeps the selected item and moves the rest to the
+        Trash.
+      </p>
+      <nav className="flex gap-2 px-5 pt-3">
+        {SCOPES.map(({ value, label }) => (
+          <Link
+            key={value}
+            href={`/admin/duplicates?scope=${value}`}
+            className={cn(
+              'px-3 py-1 text-sm rounded',
+              scope === value
+                ? 'bg-indigo-600 text-white'
+                : 'bg-white border text-gray-900 hover:bg-gray-50'
+            )}
+          >
+            {label}
+          </Link>
+        ))}
+      </nav>
+      <div className="px-5 py-5">
+        {error ? (
+          <p className="text-red-700">Unable to load duplicates.</p>
+        ) : (
+          <DuplicateGroups
+            groups={visibleGroups}
+            editableCampuses={editableCampuses}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
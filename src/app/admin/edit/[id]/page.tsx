@@ -1,15 +1,21 @@
 import prisma from '@/lib/prisma';
-import SubmitButton from '@/app/components/SubmitButton';
-import { purgeAndWarmCache } from '@/lib/cache';
+import ActionForm, { type ActionFormState } from '@/app/components/ActionForm';
+import RevisionHistory from '@/app/components/RevisionHistory';
+import TitleUrlFields from '@/app/components/TitleUrlFields';
+import { invalidateIndexCache } from '@/lib/cache';
 import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
-
-const campusInfo = [
-  { id: 'collegeOfSanMateo', value: 'College of San Mateo' },
-  { id: 'canadaCollege', value: 'Cañada College' },
-  { id: 'districtOffice', value: 'District Office' },
-  { id: 'skylineCollege', value: 'Skyline College' }
-];
+import { authorize, authorizeCampus } from '@/lib/auth';
+import { canEditCampus } from '@/lib/roles';
+import { updateIndexItem } from '@/lib/indexItems';
+import { indexItemSchema } from '@/lib/indexItemSchema';
+import SeeAlsoLetters from '@/app/components/SeeAlsoLetters';
+import {
+  getCampuses,
+  getCampusNames,
+  getNewlySharedCampuses
+} from '@/lib/campuses';
+import { checkCampuses, describePrismaError } from '@/lib/apiErrors';
 
 interface AdminEditPageProps {
   params: Promise<{
@@ -21,40 +27,123 @@ export default async function AdminEditPage({
   params
 }: AdminEditPageProps) {
   const { id } = await params;
-  const indexItem = await prisma.indexitem.findUnique({
-    where: { id },
+  const { session, error } = await authorize('CAMPUS_EDITOR');
+  if (error) {
+    redirect('/admin');
+  }
+  const indexItem = await prisma.indexitem.findFirst({
+    where: { id, deletedAt: null },
     select: {
       id: true,
       title: true,
       url: true,
       letter: true,
-      campus: true
+      extraLetters: true,
+      aliases: true,
+      keywords: true,
+      campus: true,
+      sharedCampuses: true,
+      districtWide: true
     }
   });
   if (!indexItem) {
     return <h1 className="text-red-700">No Item Found</h1>;
   }
+  if (!canEditCampus(session.user, indexItem.campus)) {
+    return (
+      <h1 className="p-5 text-red-700">
+        You do not have permission to edit {indexItem.campus} items
+      </h1>
+    );
+  }
+  // Deactivated campuses still show when the item belongs to or is shared with them
+  const { campuses = [] } = await getCampuses(true);
+  const campusOptions = campuses.filter(
+    (campus) =>
+      campus.active ||
+      campus.name === indexItem.campus ||
+      indexItem.sharedCampuses.includes(campus.name)
+  );
+  const editableCampuses = campuses
+    .map((campus) => campus.name)
+    .filter((campus) => canEditCampus(session.user, campus));
+  // Going district-wide lists the item on every campus, switched off or not
+  const canShareDistrictWide = campuses.length === editableCampuses.length;
 
-  async function updateIndexItemAction(formData: FormData): Promise<void> {
+  async function updateIndexItemAction(
+    _state: ActionFormState,
+    formData: FormData
+  ): Promise<ActionFormState> {
     'use server';
 
     const title = formData.get('title') as string;
     const url = formData.get('url') as string;
     const letter = formData.get('letter') as string;
     const campus = formData.get('campus') as string;
+    const extraLetters = formData.getAll('extraLetters') as string[];
+    const aliases = (formData.get('aliases') as string).split('\n');
+    const keywords = (formData.get('keywords') as string).split(',');
+    const sharedCampuses = formData.getAll('sharedCampuses') as string[];
+    const districtWide = formData.get('districtWide') === 'on';
 
-    await prisma.indexitem.update({
-      where: { id: indexItem?.id },
-      data: {
-        title,
-        url,
-        letter,
-        campus
-      }
+    const parsed = indexItemSchema.safeParse({
+      title,
+      url,
+      letter,
+      campus,
+      extraLetters,
+      aliases,
+      keywords,
+      sharedCampuses,
+      districtWide
     });
+    if (!parsed.success) {
+      return {
+        error: parsed.error.issues.map((issue) => issue.message).join(', ')
+      };
+    }
+    const campusErrors = checkCampuses(
+      { campus, sharedCampuses },
+      await getCampusNames(true)
+    );
+    if (campusErrors.length > 0) {
+      return {
+        error: campusErrors.map((campusError) => campusError.message).join(', ')
+      };
+    }
+
+    const { session, error } = await authorizeCampus(
+      indexItem.campus,
+      campus,
+      ...(await getNewlySharedCampuses(
+        { sharedCampuses, districtWide },
+        indexItem
+      ))
+    );
+    if (error) {
+      return { error };
+    }
+
+    const { updatedItem, error: updateError } = await updateIndexItem(
+      indexItem.id,
+      title,
+      url,
+      letter,
+      campus,
+      { email: session.user.email, source: 'EDIT_PAGE' },
+      { extraLetters, aliases, keywords, sharedCampuses, districtWide }
+    );
+    if (updateError) {
+      return {
+        error:
+          describePrismaError(updateError)?.body.message ??
+          'Unable to update the index item'
+      };
+    }
 
-    await purgeAndWarmCache();
-    revalidatePath(`/letter/${letter}`);
+    await invalidateIndexCache([indexItem, updatedItem]);
+    // The jump bar on every A-Z page shows per-letter counts
+    revalidatePath('/letter', 'layout');
 
     redirect('/admin');
   }
@@ -64,50 +153,77 @@ export default async function AdminEditPage({
       <h1 className="p-5 text-2xl font-bold bg-slate-200">
         Edit Item: {indexItem.title} - (ID: {id}) - {indexItem.campus}
       </h1>
-      <form
-        method="post"
+      <ActionForm
         action={updateIndexItemAction}
+        submitLabel="Update Index Item"
+        pendingText="Updating..."
         className="flex flex-col max-w-2xl gap-3 p-5 "
       >
+        <TitleUrlFields
+          defaultTitle={indexItem.title}
+          defaultUrl={indexItem.url}
+          campus={indexItem.campus}
+          excludeId={indexItem.id}
+          inputClassName="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
+        />
         <label
-          htmlFor="title"
           className="block text-sm font-medium leading-6 text-gray-900"
+          htmlFor="letter"
         >
-          Title
+          Letter
         </label>
         <input
-          id="title"
-          name="title"
+          id="letter"
           type="text"
+          name="letter"
           className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
-          defaultValue={indexItem.title}
+          defaultValue={indexItem.letter}
+          maxLength={1}
+        />
+        <p className="text-sm text-gray-600">
+          Leave blank to file under the first letter of the title.
+        </p>
+        <label className="block text-sm font-medium leading-6 text-gray-900">
+          See Also Letters
+        </label>
+        <SeeAlsoLetters
+          name="extraLetters"
+          defaultValue={indexItem.extraLetters}
         />
         <label
           className="block text-sm font-medium leading-6 text-gray-900"
-          htmlFor="url"
+          htmlFor="aliases"
         >
-          URL
+          Aliases
         </label>
-        <input
-          id="url"
-          name="url"
-          type="text"
+        <textarea
+          id="aliases"
+          name="aliases"
+          rows={3}
           className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
-          defaultValue={indexItem.url}
+          defaultValue={indexItem.aliases.join('\n')}
         />
+        <p className="text-sm text-gray-600">
+          Other names for this page, one per line. Each is listed on the A-Z
+          pages as &quot;Alias — see {indexItem.title}&quot;.
+        </p>
         <label
           className="block text-sm font-medium leading-6 text-gray-900"
-          htmlFor="letter"
+          htmlFor="keywords"
         >
-          Letter
+          Search Keywords
         </label>
         <input
-          id="letter"
+          id="keywords"
+          name="keywords"
           type="text"
-          name="letter"
           className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
-          defaultValue={indexItem.letter}
+          defaultValue={indexItem.keywords.join(', ')}
         />
+        <p className="text-sm text-gray-600">
+          Comma-separated terms that find this item in search without being
+          shown, such as FAFSA or parking permit.
+        </p>
         <label
           className="block text-sm font-medium leading-6 text-gray-900"
           htmlFor="campus"
@@ -116,32 +232,78 @@ export default async function AdminEditPage({
         </label>
         <fieldset className="mt-4">
           <div className="space-y-4">
-            {campusInfo.map((campus) => (
-              <div key={campus.id} className="flex items-center">
+            {campusOptions.map((campus) => (
+              <div key={campus.slug} className="flex items-center">
                 <input
-                  id={campus.id}
+                  id={`campus-${campus.slug}`}
                   name="campus"
-                  value={campus.value}
+                  value={campus.name}
                   type="radio"
-                  defaultChecked={indexItem.campus === campus.value}
+                  defaultChecked={indexItem.campus === campus.name}
+                  disabled={!editableCampuses.includes(campus.name)}
                   className="w-4 h-4 text-indigo-600 border-gray-300 focus:ring-indigo-600"
                 />
                 <label
-                  htmlFor={campus.id}
+                  htmlFor={`campus-${campus.slug}`}
                   className="block ml-3 text-sm font-medium leading-6 text-gray-900"
                 >
-                  {campus.value}
+                  {campus.name}
                 </label>
               </div>
             ))}
           </div>
         </fieldset>
-        <div className="mt-5">
-          <SubmitButton pendingText="Updating...">
-            Update Index Item
-          </SubmitButton>
-        </div>
-      </form>
+        <fieldset className="mt-4">
+          <legend className="block text-sm font-medium leading-6 text-gray-900">
+            Also listed on
+          </legend>
+          <div className="mt-2 space-y-4">
+            <label className="flex items-center text-sm font-medium leading-6 text-gray-900">
+              <input
+                type="checkbox"
+                name="districtWide"
+                defaultChecked={indexItem.districtWide}
+                disabled={!canShareDistrictWide}
+                className="w-4 h-4 mr-3 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+              />
+              Every campus (district-wide)
+            </label>
+            {/* Disabled boxes aren't submitted, so keep sharing the editor can't change */}
+            {!canShareDistrictWide && indexItem.districtWide && (
+              <input type="hidden" name="districtWide" value="on" />
+            )}
+            {campusOptions.map((campus) => (
+              <label
+                key={campus.slug}
+                className="flex items-center text-sm font-medium leading-6 text-gray-900"
+              >
+                <input
+                  type="checkbox"
+                  name="sharedCampuses"
+                  value={campus.name}
+                  defaultChecked={indexItem.sharedCampuses.includes(
+                    campus.name
+                  )}
+                  disabled={!editableCampuses.includes(campus.name)}
+                  className="w-4 h-4 mr-3 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+                />
+                {campus.name}
+              </label>
+            ))}
+            {indexItem.sharedCampuses
+              .filter((campus) => !editableCampuses.includes(campus))
+              .map((campus) => (
+                <input
+                  key={campus}
+                  type="hidden"
+                  name="sharedCampuses"
+                  value={campus}
+                />
+              ))}
+          </div>
+        </fieldset>
+      </ActionForm>
+      <RevisionHistory itemId={indexItem.id} />
     </div>
   );
 }
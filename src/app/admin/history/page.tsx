@@ -0,0 +1,227 @@
+import Link from 'next/link';
+import {
+  AUDIT_SOURCE_LABELS,
+  formatSnapshotValue,
+  getAuditLogs,
+  getChangedFields,
+  type AuditSnapshot
+} from '@/lib/audit';
+
+export const metadata = {
+  title: 'History | Site Index'
+};
+
+type Snapshot = Partial<AuditSnapshot>;
+
+interface AdminHistoryPageProps {
+  searchParams: Promise<{
+    item?: string;
+    user?: string;
+    from?: string;
+    to?: string;
+    cursor?: string;
+  }>;
+}
+
+function describeChanges(before: Snapshot | null, after: Snapshot | null) {
+  if (!before || !after) {
+    const snapshot = before ?? after;
+    return snapshot ? `${snapshot.title} (${snapshot.url})` : '';
+  }
+  return getChangedFields(before, after)
+    .map(
+      (field) =>
+        `${field}: "${formatSnapshotValue(before[field])}" → "${formatSnapshotValue(after[field])}"`
+    )
+    .join('; ');
+}
+
+// Links back to this page, dropping empty filters
+function historyHref(params: Record<string, string | undefined>) {
+  const query = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] =>
+      Boolean(entry[1])
+    )
+  ).toString();
+  return query ? `/admin/history?${query}` : '/admin/history';
+}
+
+export default async function AdminHistoryPage({
+  searchParams
+}: AdminHistoryPageProps) {
+  const { item, user, from, to, cursor } = await searchParams;
+  // Both dates are whole UTC days, matching the times shown below
+  const { auditLogs, nextCursor, error } = await getAuditLogs({
+    itemId: item || undefined,
+    userEmail: user || undefined,
+    from: from ? new Date(`${from}T00:00:00.000Z`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999Z`) : undefined,
+    cursor: cursor || undefined
+  });
+  const filters = { item, user, from, to };
+
+  const inputClassName =
+    'block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6';
+
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">History</h1>
+      <form className="flex flex-wrap items-end gap-3 px-5 pt-3">
+        <div className="flex flex-col">
+          <label htmlFor="item" className="text-sm font-medium text-gray-900">
+            Item ID
+          </label>
+          <input
+            id="item"
+            name="item"
+            defaultValue={item}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor="user" className="text-sm font-medium text-gray-900">
+            User
+          </label>
+          <input
+            id="user"
+            name="user"
+            defaultValue={user}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor="from" className="text-sm font-medium text-gray-900">
+            From
+          </label>
+          <input
+            id="from"
+            name="from"
+            type="date"
+            defaultValue={from}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor="to" className="text-sm font-medium text-gray-900">
+            To
+          </label>
+          <input
+            id="to"
+            name="to"
+            type="date"
+            defaultValue={to}
+            className={inputClassName}
+          />
+        </div>
+        <button
+          type="submit"
+          className="rounded-md bg-white px-3.5 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+        >
+          Filter
+        </button>
+        <Link
+          href="/admin/history"
+          className="px-3 py-2 text-sm text-gray-600 hover:underline"
+        >
+          Clear Filters
+        </Link>
+      </form>
+      {error ? (
+        <p className="p-5 text-red-700">Unable to load history.</p>
+      ) : (
+        <div className="mx-5 mt-5 overflow-auto bg-white border rounded-md">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                  When
+                </th>
+                <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                  Who
+                </th>
+                <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                  Action
+                </th>
+                <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                  Source
+                </th>
+                <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                  Item
+                </th>
+                <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                  Changes
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {auditLogs.map((entry) => (
+                <tr key={entry.id} className="border-b-2 border-b-slate-100">
+                  <td className="py-3 pl-4 pr-3 text-sm text-gray-900 whitespace-nowrap">
+                    {entry.createdAt.toLocaleString('en-US', {
+                      timeZone: 'UTC',
+                      timeZoneName: 'short'
+                    })}
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-900">
+                    <Link
+                      href={`/admin/history?user=${encodeURIComponent(
+                        entry.userEmail ?? ''
+                      )}`}
+                      className="hover:underline"
+                    >
+                      {entry.userEmail ?? 'Unknown'}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-900">
+                    {entry.action}
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-900">
+                    {AUDIT_SOURCE_LABELS[entry.source]}
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-900">
+                    <Link
+                      href={`/admin/history?item=${entry.itemId}`}
+                      className="hover:underline"
+                      title={entry.itemId}
+                    >
+                      {entry.itemId.substring(0, 8)}
+                    </Link>
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-700">
+                    {describeChanges(
+                      entry.before as Snapshot | null,
+                      entry.after as Snapshot | null
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {auditLogs.length === 0 && (
+            <p className="p-5 text-sm text-gray-600">No history found.</p>
+          )}
+          {(cursor || nextCursor) && (
+            <div className="flex gap-4 p-4 text-sm">
+              {cursor && (
+                <Link
+                  href={historyHref(filters)}
+                  className="text-indigo-700 hover:underline"
+                >
+                  Newest entries
+                </Link>
+              )}
+              {nextCursor && (
+                <Link
+                  href={historyHref({ ...filters, cursor: nextCursor })}
+                  className="text-indigo-700 hover:underline"
+                >
+                  Older entries
+                </Link>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
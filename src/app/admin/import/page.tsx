@@ -0,0 +1,24 @@
+import { redirect } from 'next/navigation';
+import ImportIndexItemsForm from '../../components/ImportIndexItemsForm';
+import { authorize } from '@/lib/auth';
+
+export const metadata = {
+  title: 'Import Index Items | Site Index'
+};
+
+export default async function ImportIndexItemsPage() {
+  const { error } = await authorize('CAMPUS_EDITOR');
+  if (error) {
+    redirect('/admin');
+  }
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">
+        Import Index Items
+      </h1>
+      <div className="px-8 py-6">
+        <ImportIndexItemsForm />
+      </div>
+    </div>
+  );
+}
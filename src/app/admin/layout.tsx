@@ -1,36 +1,113 @@
 import SessionProvider from '../components/SessionProvider';
 import Link from 'next/link';
-import { getServerSession } from 'next-auth/next';
 import { redirect } from 'next/navigation';
-import { CirclePlus, HomeIcon } from 'lucide-react';
+import type { Role } from '@prisma/client';
+import {
+  CirclePlus,
+  Copy,
+  History,
+  HomeIcon,
+  KeyRound,
+  Link2Off,
+  Redo2,
+  School,
+  Trash2,
+  Upload,
+  Users,
+  type LucideIcon
+} from 'lucide-react';
+import { getSession } from '@/lib/auth';
+import { hasRole } from '@/lib/roles';
 
 export const metadata = {
   title: 'Administration Area | SMCCCD Site Index'
 };
 
-const Sidebar = () => {
+const sidebarLinks: {
+  href: string;
+  label: string;
+  icon: LucideIcon;
+  minRole: Role;
+}[] = [
+  { href: '/admin', label: 'Home', icon: HomeIcon, minRole: 'VIEWER' },
+  {
+    href: '/admin/new',
+    label: 'Create New',
+    icon: CirclePlus,
+    minRole: 'CAMPUS_EDITOR'
+  },
+  {
+    href: '/admin/import',
+    label: 'Import CSV',
+    icon: Upload,
+    minRole: 'CAMPUS_EDITOR'
+  },
+  {
+    href: '/admin/history',
+    label: 'History',
+    icon: History,
+    minRole: 'VIEWER'
+  },
+  {
+    href: '/admin/links',
+    label: 'Broken Links',
+    icon: Link2Off,
+    minRole: 'VIEWER'
+  },
+  {
+    href: '/admin/duplicates',
+    label: 'Duplicates',
+    icon: Copy,
+    minRole: 'VIEWER'
+  },
+  {
+    href: '/admin/redirects',
+    label: 'Suggested Fixes',
+    icon: Redo2,
+    minRole: 'VIEWER'
+  },
+  { href: '/admin/trash', label: 'Trash', icon: Trash2, minRole: 'VIEWER' },
+  {
+    href: '/admin/api-keys',
+    label: 'API Keys',
+    icon: KeyRound,
+    minRole: 'DISTRICT_ADMIN'
+  },
+  {
+    href: '/admin/campuses',
+    label: 'Campuses',
+    icon: School,
+    minRole: 'DISTRICT_ADMIN'
+  },
+  {
+    href: '/admin/users',
+    label: 'Users',
+    icon: Users,
+    minRole: 'DISTRICT_ADMIN'
+  }
+];
+
+const Sidebar = ({ role }: { role?: Role }) => {
   return (
     <div className="flex flex-col w-56 text-lg border-r flex-0 bg-gray-800">
       <nav>
         <ul className="flex flex-col mt-4 gap-3 text-gray-200">
-          <li className="rounded mx-4 flex-1 p-2 hover:underline hover:bg-gray-200 hover:text-gray-900">
-            <Link className="block text-left" href="/admin">
-              <HomeIcon
-                aria-hidden="true"
-                className="inline-block w-6 h-6 mr-2"
-              />
-              Home
-            </Link>
-          </li>
-          <li className="flex-1 rounded mx-4 p-2 hover:underline hover:bg-gray-200 hover:text-gray-900">
-            <Link className="block text-left" href="/admin/new">
-              <CirclePlus
-                aria-hidden="true"
-                className="inline-block w-6 h-6 mr-2"
-              />
-              Create New
-            </Link>
-          </li>
+          {sidebarLinks
+            .filter((link) => hasRole(role, link.minRole))
+            .map(({ href, label, icon: Icon }) => (
+              <li
+                key={href}
+                className="rounded mx-4 flex-1 p-2 hover:underline hover:bg-gray-200 hover:text-gray-900"
+              >
+                <Link className="block text-left" href={href}>
+                  <Icon
+                    aria-hidden="true"
+                    className="inline-block w-6 h-6 mr-2"
+                  />
+                  {label}
+                </Link>
+              </li>
+            ))}
         </ul>
       </nav>
     </div>
@@ -42,14 +119,14 @@ export default async function AdminLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const session = await getServerSession();
+  const session = await getSession();
   if (!session?.user?.email) {
     redirect('/');
   }
   return (
     <SessionProvider>
       <div className="flex flex-row min-h-screen">
-        <Sidebar />
+        <Sidebar role={session.user.role} />
         <main className="flex-1 overflow-auto">{children}</main>
       </div>
     </SessionProvider>
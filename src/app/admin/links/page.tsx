@@ -0,0 +1,109 @@
+import Link from 'next/link';
+import { getCampusNames } from '@/lib/campuses';
+import {
+  LINK_CHECK_ERROR_LABELS,
+  getBrokenLinkReport,
+  type LinkCheckError
+} from '@/lib/linkChecker';
+
+export const metadata = {
+  title: 'Broken Links | Site Index'
+};
+
+export default async function AdminLinksPage() {
+  const { brokenLinks, campusCounts, checkedCount, error } =
+    await getBrokenLinkReport();
+  const campuses = await getCampusNames();
+
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">Broken Links</h1>
+      {error ? (
+        <p className="p-5 text-red-700">Unable to load the link report.</p>
+      ) : (
+        <>
+          <p className="px-5 pt-3 text-sm text-gray-600">
+            {brokenLinks.length} broken of {checkedCount} checked links. Links
+            are rechecked every hour.
+          </p>
+          <dl className="grid max-w-3xl grid-cols-4 gap-3 px-5 pt-3">
+            {campuses.map((campus) => (
+              <div
+                key={campus}
+                className="p-3 bg-white border rounded-md shadow-sm"
+              >
+                <dt className="text-sm text-gray-600">{campus}</dt>
+                <dd className="text-2xl font-bold text-gray-900">
+                  {campusCounts[campus] ?? 0}
+                </dd>
+              </div>
+            ))}
+          </dl>
+          <div className="mx-5 mt-5 overflow-auto bg-white border rounded-md">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                    Title
+                  </th>
+                  <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                    Campus
+                  </th>
+                  <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                    Problem
+                  </th>
+                  <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                    Redirects To
+                  </th>
+                  <th className="py-3.5 px-3 text-right text-sm font-semibold text-gray-900">
+                    Time
+                  </th>
+                  <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                    Last Checked
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {brokenLinks.map((check) => (
+                  <tr key={check.id} className="border-b-2 border-b-slate-100">
+                    <td className="py-3 pl-4 pr-3 text-sm font-medium text-gray-900">
+                      <Link
+                        href={`/admin/edit/${check.item.id}`}
+                        className="hover:underline hover:text-indigo-900"
+                      >
+                        {check.item.title}
+                      </Link>
+                      <div className="text-xs text-gray-500 break-all">
+                        {check.item.url}
+                      </div>
+                    </td>
+                    <td className="px-3 py-3 text-sm text-gray-900">
+                      {check.item.campus}
+                    </td>
+                    <td className="px-3 py-3 text-sm text-red-700">
+                      {check.error
+                        ? LINK_CHECK_ERROR_LABELS[check.error as LinkCheckError]
+                        : `HTTP ${check.status}`}
+                    </td>
+                    <td className="px-3 py-3 text-xs text-gray-700 break-all">
+                      {check.redirectUrl}
+                    </td>
+                    <td className="px-3 py-3 text-sm text-right text-gray-900 whitespace-nowrap">
+                      {check.responseTimeMs} ms
+                    </td>
+                    <td className="px-3 py-3 text-sm text-gray-900 whitespace-nowrap">
+                      {check.checkedAt.toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {brokenLinks.length === 0 && (
+              <p className="p-5 text-sm text-gray-600">No broken links.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
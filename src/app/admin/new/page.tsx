@@ -1,17 +1,32 @@
+import { redirect } from 'next/navigation';
 import NewIndexItemForm from '../../components/NewIndexItemForm';
+import { authorize } from '@/lib/auth';
+import { getCampuses } from '@/lib/campuses';
+import { canEditCampus } from '@/lib/roles';
 
 export const metadata = {
   title: 'Create New Index Item | Site Index'
 };
 
-export default function NewIndexItemPage() {
+export default async function NewIndexItemPage() {
+  const { session, error } = await authorize('CAMPUS_EDITOR');
+  if (error) {
+    redirect('/admin');
+  }
+  const { campuses = [] } = await getCampuses();
+  const editableCampuses = campuses
+    .map((campus) => campus.name)
+    .filter((campus) => canEditCampus(session.user, campus));
   return (
     <div>
       <h1 className="p-5 text-3xl font-bold bg-slate-200">
         Create New Index Item
       </h1>
       <div className="px-8 py-6">
-        <NewIndexItemForm />
+        <NewIndexItemForm
+          campuses={campuses}
+          editableCampuses={editableCampuses}
+        />
       </div>
     </div>
   );
@@ -1,10 +1,22 @@
 import SearchResults from '@/components/SearchResults';
+import { getSession } from '@/lib/auth';
+import { getCampuses } from '@/lib/campuses';
+import { canEditCampus } from '@/lib/roles';
 
 export default async function AdminPage() {
+  const session = await getSession();
+  const { campuses = [] } = await getCampuses();
+  const editableCampuses = campuses
+    .map((campus) => campus.name)
+    .filter((campus) => canEditCampus(session?.user, campus));
   return (
     <div>
       <h1 className="p-5 text-3xl font-bold bg-slate-200">Admin Home</h1>
-      <SearchResults />
+      <SearchResults
+        campuses={campuses}
+        userCampuses={session?.user?.campuses ?? []}
+        editableCampuses={editableCampuses}
+      />
     </div>
   );
 }
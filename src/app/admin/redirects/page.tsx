@@ -0,0 +1,38 @@
+import RedirectSuggestions from '@/components/RedirectSuggestions';
+import { getSession } from '@/lib/auth';
+import { getCampusNames } from '@/lib/campuses';
+import { getRedirectSuggestions } from '@/lib/linkChecker';
+import { canEditCampus } from '@/lib/roles';
+
+export const metadata = {
+  title: 'Suggested Fixes | Site Index'
+};
+
+export default async function AdminRedirectsPage() {
+  const session = await getSession();
+  const { suggestions, error } = await getRedirectSuggestions();
+  const editableCampuses = (await getCampusNames(true)).filter((campus) =>
+    canEditCampus(session?.user, campus)
+  );
+
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">Suggested Fixes</h1>
+      <p className="max-w-3xl px-5 pt-3 text-sm text-gray-600">
+        These links permanently redirect (301/308) to the same new address on
+        consecutive link checks. Accepting a fix replaces the stored URL with
+        the final destination.
+      </p>
+      <div className="px-5 py-5">
+        {error ? (
+          <p className="text-red-700">Unable to load suggested fixes.</p>
+        ) : (
+          <RedirectSuggestions
+            suggestions={suggestions}
+            editableCampuses={editableCampuses}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
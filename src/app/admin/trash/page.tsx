@@ -0,0 +1,91 @@
+import TrashItemActions from '@/components/TrashItemActions';
+import { getSession } from '@/lib/auth';
+import { canEditCampus } from '@/lib/roles';
+import {
+  TRASH_RETENTION_DAYS,
+  getDeletedIndexItems,
+  getPurgeDate,
+  isPurgeable
+} from '@/lib/trash';
+
+export const metadata = {
+  title: 'Trash | Site Index'
+};
+
+export default async function AdminTrashPage() {
+  const session = await getSession();
+  const { deletedItems, error } = await getDeletedIndexItems();
+
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">Trash</h1>
+      <p className="max-w-3xl px-5 pt-3 text-sm text-gray-600">
+        Deleted items are hidden from the public index and can be restored.
+        After {TRASH_RETENTION_DAYS} days they can be deleted forever, and are
+        purged automatically.
+      </p>
+      {error ? (
+        <p className="p-5 text-red-700">Unable to load the trash.</p>
+      ) : (
+        <div className="mx-5 mt-5 overflow-auto bg-white border rounded-md">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                  Title
+                </th>
+                <th className="py-3.5 px-3 text-center text-sm font-semibold text-gray-900">
+                  Letter
+                </th>
+                <th className="py-3.5 px-3 text-center text-sm font-semibold text-gray-900">
+                  Campus
+                </th>
+                <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                  Deleted
+                </th>
+                <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {deletedItems.map((item) => (
+                <tr key={item.id} className="border-b-2 border-b-slate-100">
+                  <td className="py-3 pl-4 pr-3 text-sm font-medium text-gray-900">
+                    {item.title}
+                    <div className="text-xs text-gray-500">{item.url}</div>
+                  </td>
+                  <td className="px-3 py-3 text-sm text-center text-gray-900">
+                    {item.letter.toUpperCase()}
+                  </td>
+                  <td className="px-3 py-3 text-sm text-center text-gray-900">
+                    {item.campus}
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-900 whitespace-nowrap">
+                    {item.deletedAt.toLocaleDateString()}
+                    <div className="text-xs text-gray-500">
+                      Purge after{' '}
+                      {getPurgeDate(item.deletedAt).toLocaleDateString()}
+                    </div>
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap">
+                    {canEditCampus(session?.user, item.campus) && (
+                      <TrashItemActions
+                        id={item.id}
+                        itemName={item.title}
+                        canPurge={isPurgeable(item.deletedAt)}
+                      />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {deletedItems.length === 0 && (
+            <p className="p-5 text-sm text-gray-600">The trash is empty.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
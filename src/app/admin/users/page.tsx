@@ -0,0 +1,214 @@
+import type { Role } from '@prisma/client';
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import SubmitButton from '@/app/components/SubmitButton';
+import { authorize } from '@/lib/auth';
+import { ROLE_LABELS } from '@/lib/roles';
+import { getCampusNames } from '@/lib/campuses';
+import {
+  deleteAdminUser,
+  getAdminUsers,
+  saveAdminUser
+} from '@/lib/adminUsers';
+
+export const metadata = {
+  title: 'Users | Site Index'
+};
+
+const roles = Object.keys(ROLE_LABELS) as Role[];
+
+export default async function AdminUsersPage() {
+  const { error } = await authorize('DISTRICT_ADMIN');
+  if (error) {
+    redirect('/admin');
+  }
+  const { adminUsers } = await getAdminUsers();
+  const campusNames = await getCampusNames();
+
+  async function saveAdminUserAction(formData: FormData): Promise<void> {
+    'use server';
+
+    const { error } = await authorize('DISTRICT_ADMIN');
+    if (error) {
+      redirect('/admin');
+    }
+
+    const email = formData.get('email') as string;
+    const name = formData.get('name') as string;
+    const role = formData.get('role') as Role;
+    const knownCampuses = await getCampusNames(true);
+    const campuses = (formData.getAll('campuses') as string[]).filter(
+      (campus) => knownCampuses.includes(campus)
+    );
+    if (!email || !roles.includes(role)) {
+      return;
+    }
+
+    const { error: saveError } = await saveAdminUser(
+      email,
+      role,
+      campuses,
+      name
+    );
+    if (saveError) {
+      console.error('Error saving admin user:', saveError);
+    }
+    revalidatePath('/admin/users');
+  }
+
+  async function deleteAdminUserAction(formData: FormData): Promise<void> {
+    'use server';
+
+    const { error } = await authorize('DISTRICT_ADMIN');
+    if (error) {
+      redirect('/admin');
+    }
+
+    const { error: deleteError } = await deleteAdminUser(
+      formData.get('id') as string
+    );
+    if (deleteError) {
+      console.error('Error deleting admin user:', deleteError);
+    }
+    revalidatePath('/admin/users');
+  }
+
+  return (
+    <div>
+      <h1 className="p-5 text-3xl font-bold bg-slate-200">Users</h1>
+      <div className="px-8 py-6 space-y-8">
+        <p className="max-w-3xl text-sm text-gray-600">
+          Anyone who signs in with OneLogin can view the admin area. Grant a
+          role below to let them edit the index. Campus editors can only change
+          items on the campuses checked for them.
+        </p>
+        <form
+          action={saveAdminUserAction}
+          className="flex flex-wrap items-end max-w-3xl gap-3"
+        >
+          <div className="flex flex-col flex-1">
+            <label
+              htmlFor="email"
+              className="block text-sm font-medium leading-6 text-gray-900"
+            >
+              Email
+            </label>
+            <input
+              id="email"
+              name="email"
+              type="email"
+              required
+              className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
+            />
+          </div>
+          <div className="flex flex-col flex-1">
+            <label
+              htmlFor="name"
+              className="block text-sm font-medium leading-6 text-gray-900"
+            >
+              Name
+            </label>
+            <input
+              id="name"
+              name="name"
+              type="text"
+              className="block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
+            />
+          </div>
+          <div className="flex flex-col">
+            <label
+              htmlFor="role"
+              className="block text-sm font-medium leading-6 text-gray-900"
+            >
+              Role
+            </label>
+            <select
+              id="role"
+              name="role"
+              defaultValue="CAMPUS_EDITOR"
+              className="block rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6"
+            >
+              {roles.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <SubmitButton>Save User</SubmitButton>
+          <fieldset className="w-full">
+            <legend className="block text-sm font-medium leading-6 text-gray-900">
+              Campuses
+            </legend>
+            <div className="grid grid-cols-4 px-4 py-2 mt-1 bg-white border border-gray-300 rounded-sm">
+              {campusNames.map((campus) => (
+                <label
+                  key={campus}
+                  className="flex items-center text-sm font-medium leading-6 text-gray-900"
+                >
+                  <input
+                    type="checkbox"
+                    name="campuses"
+                    value={campus}
+                    className="w-4 h-4 mr-2 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+                  />
+                  {campus}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </form>
+        <table className="min-w-full max-w-3xl bg-white border divide-y divide-gray-300 rounded-md">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                Email
+              </th>
+              <th className="py-3.5 text-left text-sm font-semibold text-gray-900">
+                Name
+              </th>
+              <th className="py-3.5 text-left text-sm font-semibold text-gray-900">
+                Role
+              </th>
+              <th className="py-3.5 text-left text-sm font-semibold text-gray-900">
+                Campuses
+              </th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {(adminUsers ?? []).map((adminUser) => (
+              <tr key={adminUser.id} className="border-b-2 border-b-slate-100">
+                <td className="py-3 pl-4 pr-3 text-sm text-gray-900">
+                  {adminUser.email}
+                </td>
+                <td className="py-3 text-sm text-gray-900">{adminUser.name}</td>
+                <td className="py-3 text-sm text-gray-900">
+                  {ROLE_LABELS[adminUser.role]}
+                </td>
+                <td className="py-3 text-sm text-gray-900">
+                  {adminUser.role === 'DISTRICT_ADMIN'
+                    ? 'All campuses'
+                    : adminUser.campuses.join(', ')}
+                </td>
+                <td className="px-3 py-3">
+                  <form action={deleteAdminUserAction}>
+                    <input type="hidden" name="id" value={adminUser.id} />
+                    <button
+                      type="submit"
+                      className="px-3 py-1 text-sm font-semibold text-red-900 bg-red-200 rounded shadow-sm hover:bg-red-300"
+                    >
+                      Remove <span className="sr-only">{adminUser.email}</span>
+                    </button>
+                  </form>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
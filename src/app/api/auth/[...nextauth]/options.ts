@@ -1,5 +1,6 @@
 import { AuthOptions } from 'next-auth';
 import OneLoginProvider from 'next-auth/providers/onelogin';
+import { getAccessForEmail } from '@/lib/roles';
 
 const authOptions: AuthOptions = {
   providers: [
@@ -29,11 +30,19 @@ const authOptions: AuthOptions = {
         token.sub = user.id;
         // console.log('JWT callback - token.sub:', token.sub)
       }
+      // Re-read access on every call so role changes apply without a new sign-in
+      if (token.email) {
+        const { role, campuses } = await getAccessForEmail(token.email);
+        token.role = role;
+        token.campuses = campuses;
+      }
       return token;
     },
     async session({ session, token }) {
       session.user.name = token.name;
       session.user.email = token.email;
+      session.user.role = token.role;
+      session.user.campuses = token.campuses;
       if (process.env.NODE_ENV === 'development') console.log('Session callback - session:', session);
 
       return session;
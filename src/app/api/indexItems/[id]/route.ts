@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { invalidateIndexCache } from '@/lib/cache';
+import { authorizeApiCampuses, authorizeApiWrite } from '@/lib/auth';
+import { getCampusNames, getNewlySharedCampuses } from '@/lib/campuses';
+import { updateIndexItem } from '@/lib/indexItems';
+import {
+  indexItemApiSchema,
+  indexItemPatchSchema
+} from '@/lib/indexItemSchema';
+import {
+  apiError,
+  checkCampuses,
+  invalidJsonError,
+  readJson,
+  serverError,
+  validationError
+} from '@/lib/apiErrors';
+import { corsHeaders, guardPublicRequest } from '@/lib/publicApi';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return apiError(404, 'Index item not found');
+}
+
+function findItem(id: string) {
+  return prisma.indexitem.findFirst({
+    where: { id, deletedAt: null },
+    select: {
+      id: true,
+      title: true,
+      url: true,
+      letter: true,
+      extraLetters: true,
+      aliases: true,
+      keywords: true,
+      campus: true,
+      sharedCampuses: true,
+      districtWide: true
+    }
+  });
+}
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const { error: guardError, status } = await guardPublicRequest(req);
+  if (guardError) {
+    return apiError(
+      status,
+      guardError,
+      status === 429 ? 'rate_limited' : 'blocked',
+      undefined,
+      corsHeaders(req)
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const item = await findItem(id);
+    if (!item) return notFound();
+
+    // Keywords only feed search, so they stay out of the public response
+    const { keywords: _keywords, ...publicItem } = item;
+    return NextResponse.json(publicItem, {
+      headers: {
+        ...corsHeaders(req),
+        'Cache-Control':
+          'public, max-age=3600, s-maxage=3600, stale-while-revalidate'
+      }
+    });
+  } catch (error) {
+    return serverError(error, 'Error fetching index item');
+  }
+}
+
+/**
+ * Saves new values for an existing item, keeping its ID. PUT replaces the
+ * item; PATCH only changes the fields it includes.
+ */
+async function saveIndexItem(
+  req: NextRequest,
+  { params }: RouteContext,
+  partial: boolean
+) {
+  try {
+    // Sign-in or a write key comes first; campus permissions are checked below
+    const {
+      writer,
+      error: signInError,
+      status: signInStatus
+    } = await authorizeApiWrite(req);
+    if (signInError) return apiError(signInStatus, signInError);
+
+    const { id } = await params;
+    const body = await readJson(req);
+    if (body === undefined) return invalidJsonError();
+    const parsed = partial
+      ? indexItemPatchSchema.safeParse(body)
+      : indexItemApiSchema.safeParse(body);
+    if (!parsed.success) return validationError(parsed.error);
+
+    const existingItem = await findItem(id);
+    if (!existingItem) return notFound();
+    // A PUT replaces the item, so lists and sharing it leaves out are cleared
+    const values = partial
+      ? { ...existingItem, ...parsed.data }
+      : {
+          extraLetters: [],
+          aliases: [],
+          keywords: [],
+          sharedCampuses: [],
+          districtWide: false,
+          ...parsed.data
+        };
+
+    const campusErrors = checkCampuses(values, await getCampusNames(true));
+    if (campusErrors.length > 0) {
+      return apiError(
+        422,
+        campusErrors[0].message,
+        'unprocessable',
+        campusErrors
+      );
+    }
+
+    const {
+      actor,
+      error: authError,
+      status
+    } = authorizeApiCampuses(
+      writer,
+      existingItem.campus,
+      values.campus,
+      ...(await getNewlySharedCampuses(values, existingItem))
+    );
+    if (authError) return apiError(status, authError);
+
+    const { updatedItem, error } = await updateIndexItem(
+      id,
+      values.title,
+      values.url,
+      values.letter,
+      values.campus,
+      actor,
+      {
+        extraLetters: values.extraLetters,
+        aliases: values.aliases,
+        keywords: values.keywords,
+        sharedCampuses: values.sharedCampuses,
+        districtWide: values.districtWide
+      }
+    );
+    if (error) throw error;
+
+    await invalidateIndexCache([existingItem, updatedItem]);
+
+    return NextResponse.json(updatedItem);
+  } catch (error) {
+    return serverError(error, 'Error updating index item');
+  }
+}
+
+export async function PUT(req: NextRequest, context: RouteContext) {
+  return saveIndexItem(req, context, false);
+}
+
+export async function PATCH(req: NextRequest, context: RouteContext) {
+  return saveIndexItem(req, context, true);
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { invalidateIndexCache } from '@/lib/cache';
+import { authorizeApiCampuses, authorizeApiWrite } from '@/lib/auth';
+import {
+  bulkRequestSchema,
+  findUnknownCampuses,
+  getBulkCampuses,
+  runBulkOperations,
+  type BulkOperation
+} from '@/lib/bulkIndexItems';
+import {
+  apiError,
+  invalidJsonError,
+  readJson,
+  serverError,
+  validationError
+} from '@/lib/apiErrors';
+
+/**
+ * Applies a batch of create, update and delete operations atomically:
+ * either every operation succeeds or none of them do.
+ *
+ * Body: `{ "operations": [{ "op": "create", "data": {...} },
+ * { "op": "update", "id": "...", "data": {...} }, { "op": "delete", "id": "..." }] }`
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Sign-in or a write key comes first; campus permissions are checked below
+    const {
+      writer,
+      error: signInError,
+      status: signInStatus
+    } = await authorizeApiWrite(req);
+    if (signInError) return apiError(signInStatus, signInError);
+
+    const body = await readJson(req);
+    if (body === undefined) return invalidJsonError();
+    const parsed = bulkRequestSchema.safeParse(body);
+    if (!parsed.success) return validationError(parsed.error);
+    const operations = parsed.data.operations as BulkOperation[];
+
+    const unknownCampuses = await findUnknownCampuses(operations);
+    if (unknownCampuses.length > 0) {
+      return apiError(
+        422,
+        'Some operations name an unknown campus',
+        'unprocessable',
+        unknownCampuses
+      );
+    }
+
+    const {
+      campuses,
+      existingItems,
+      error: campusError
+    } = await getBulkCampuses(operations);
+    if (campusError) throw campusError;
+    const {
+      actor,
+      error: authError,
+      status
+    } = authorizeApiCampuses(writer, ...campuses);
+    if (authError) return apiError(status, authError);
+
+    const { results, items, error } = await runBulkOperations(
+      operations,
+      actor
+    );
+    if (!results) throw error;
+    if (error) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'unprocessable',
+            message: 'An operation failed, so none were applied'
+          },
+          results
+        },
+        { status: 422 }
+      );
+    }
+
+    // Once for the whole batch rather than per operation
+    await invalidateIndexCache([...existingItems, ...items]);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    return serverError(error, 'Error running bulk operations');
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import {
+  EXPORT_FORMATS,
+  getExportItems,
+  serializeExport,
+  type ExportFormat
+} from '@/lib/exportIndexItems';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  const { error: authError, status } = await authorize('VIEWER');
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status });
+  }
+
+  const url = req.nextUrl;
+  const format = (url.searchParams.get('format') || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `Format must be one of ${EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  const search = url.searchParams.get('search') || '';
+  const campus = url.searchParams.get('campus') || '';
+
+  const { items, error } = await getExportItems(search, campus);
+  if (error) {
+    console.error('Error exporting index items', error);
+    return NextResponse.json(
+      { error: 'Error exporting index items' },
+      { status: 500 }
+    );
+  }
+
+  const { body, contentType } = await serializeExport(items, format);
+  const date = new Date().toISOString().slice(0, 10);
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="site-index-${date}.${format}"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -1,127 +1,134 @@
-import { kv } from '@vercel/kv';
 import { prisma } from '@/lib/prisma';
-import { purgeAndWarmCache } from '@/lib/cache';
+import { getIndexCacheKey, invalidateIndexCache } from '@/lib/cache';
+import { getCache } from '@/lib/store';
+import { authorizeApiCampuses, authorizeApiWrite } from '@/lib/auth';
+import {
+  findCampus,
+  getCampusNames,
+  getNewlySharedCampuses,
+  listedOnCampus
+} from '@/lib/campuses';
+import { createIndexItem, deleteIndexItem } from '@/lib/indexItems';
+import { normalizeLetter } from '@/lib/letters';
+import { withAliasEntries } from '@/lib/aliases';
+import { rankedSearch } from '@/lib/search';
 import { NextRequest, NextResponse } from 'next/server';
-import { Ratelimit } from '@upstash/ratelimit';
+import type { Prisma } from '@prisma/client';
+import { indexItemApiSchema } from '@/lib/indexItemSchema';
+import {
+  apiError,
+  checkCampuses,
+  invalidJsonError,
+  readJson,
+  serverError,
+  validationError
+} from '@/lib/apiErrors';
+import { corsHeaders, guardPublicRequest } from '@/lib/publicApi';
 
 const isDev = process.env.NODE_ENV === 'development';
 const CACHE_TTL = 60 * 60; // 1 hour in seconds
 
-const ratelimit = new Ratelimit({
-  redis: kv,
-  limiter: Ratelimit.slidingWindow(5, '10 s')
-});
-
-// Trusted origins whitelist
-const TRUSTED_ORIGINS = [
-  'https://smccd.edu',
-  'https://www.smccd.edu',
-  'https://smccd.edu/portal',
-  'https://collegeofsanmateo.edu',
-  'https://canadacollege.edu',
-  'https://skylinecollege.edu',
-  process.env.NEXTAUTH_URL || 'http://localhost:3000'
-];
-
 export async function GET(req: NextRequest) {
   try {
-    const userAgent = req.headers.get('user-agent') || '';
-    const forwardedFor = req.headers.get('x-forwarded-for');
-    const realIp = req.headers.get('x-real-ip');
-    const ip = forwardedFor?.split(',')[0] || realIp || '127.0.0.1';
-    const compositeKey = `${ip}:${userAgent}`;
-    const origin = req.headers.get('origin');
-    const isTrustedOrigin = origin && TRUSTED_ORIGINS.includes(origin);
-
-    // Skip user-agent checks for trusted origins
-    if (!isTrustedOrigin) {
-      // Block outdated/suspicious User-Agent
-      const blockedUserAgents = [
-        'MSIE 7.0',
-        'Windows NT 5.1',
-        'MSIE 6.0',
-        'Windows NT 5.0',
-        'Mozilla/4.0',
-        'curl',
-        'wget',
-        'python-requests',
-        'httpclient',
-        'libwww-perl',
-        'Go-http-client',
-        'Java/',
-        'Apache-HttpClient',
-        'Scrapy',
-        'bot',
-        'crawler',
-        'spider'
-      ];
-      // Block empty or suspicious User-Agents
-      if (
-        !userAgent ||
-        blockedUserAgents.some((ua) => userAgent.toLowerCase().includes(ua))
-      ) {
-        if (isDev) console.log(`Blocked IP: ${ip}, User-Agent: ${userAgent}`);
-        return new NextResponse(JSON.stringify({ error: 'Blocked User-Agent' }), {
-          status: 403,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-    }
-
-    // Apply rate limiting
-    const { success } = await ratelimit.limit(compositeKey);
-
-    if (!success) {
-      if (isDev) console.log(`Rate limit exceeded for IP: ${ip} and UA: ${userAgent}`);
-      return new NextResponse(JSON.stringify({ error: 'Too Many Requests' }), {
-        status: 429,
-        headers: { 'Content-Type': 'application/json' }
-      });
+    const { error: guardError, status } = await guardPublicRequest(req);
+    if (guardError) {
+      return apiError(
+        status,
+        guardError,
+        status === 429 ? 'rate_limited' : 'blocked',
+        undefined,
+        corsHeaders(req)
+      );
     }
 
     const url = req.nextUrl;
-    const campus = url.searchParams.get('campus') || '';
-    const letter = url.searchParams.get('letter') || '';
+    const campusParam = url.searchParams.get('campus') || '';
+    // Slugs and spelling variants, e.g. "canada", resolve to the campus name
+    const { campus: campusMatch } = campusParam
+      ? await findCampus(campusParam)
+      : { campus: undefined };
+    const campus = campusMatch?.name ?? campusParam;
+    const letterParam = url.searchParams.get('letter') || '';
+    // "a", "A" and "á" share one cache entry
+    const letter = normalizeLetter(letterParam);
     const search = url.searchParams.get('search') || '';
 
-    const cacheKey = `index:${campus}:${letter}:${search}`;
+    if (letterParam && !letter) {
+      return apiError(400, 'Invalid letter', 'invalid_parameter', [
+        {
+          field: 'letter',
+          code: 'invalid_string',
+          message: 'letter must be a single letter or digit'
+        }
+      ]);
+    }
+
+    const cacheKey = await getIndexCacheKey(campus || undefined, letter, search);
 
     if (isDev) console.log(`Attempting to fetch data for key: ${cacheKey}`);
 
-    // Try to get data from Vercel KV
-    let cachedData = await kv.get(cacheKey);
+    // Try to get data from the cache
+    const cache = getCache();
+    let cachedData = await cache.get(cacheKey);
     if (isDev) console.log('Raw cached data:', cachedData);
     let indexItems;
 
     if (!cachedData) {
       if (isDev) console.log(`Cache miss for key: ${cacheKey}`);
 
-      const conditions: {
-        campus?: string;
-        letter?: { contains: string; mode: 'insensitive' };
-        OR?: { title: { contains: string; mode: 'insensitive' } }[];
-      } = {};
-      if (campus) conditions.campus = campus;
-      if (letter) conditions.letter = { contains: letter, mode: 'insensitive' };
-      if (search)
-        conditions.OR = [{ title: { contains: search, mode: 'insensitive' } }];
-
-      indexItems = await prisma.indexitem.findMany({
-        where: conditions,
-        orderBy: { title: 'asc' },
-        select: {
-          id: true,
-          title: true,
-          letter: true,
-          url: true,
-          campus: true
-        }
-      });
+      if (search) {
+        // Ranked by relevance, with a score and highlighted title per result
+        const matches = await rankedSearch(search, { campus });
+        indexItems = letter
+          ? matches.filter(
+              (item) =>
+                item.letter === letter || item.extraLetters.includes(letter)
+            )
+          : matches;
+      } else {
+        const conditions: Prisma.indexitemWhereInput = { deletedAt: null };
+        if (campus) conditions.AND = [listedOnCampus(campus)];
+        // Match items filed under the letter or listing it as a "see also" letter,
+        // plus any with aliases, which are filed by their own first letter
+        if (letter)
+          conditions.OR = [
+            { letter },
+            { extraLetters: { has: letter } },
+            { aliases: { isEmpty: false } }
+          ];
+
+        const items = await prisma.indexitem.findMany({
+          where: conditions,
+          orderBy: { title: 'asc' },
+          select: {
+            id: true,
+            title: true,
+            letter: true,
+            extraLetters: true,
+            aliases: true,
+            url: true,
+            campus: true,
+            sharedCampuses: true,
+            districtWide: true
+          }
+        });
+        // A-Z listings add an entry for each alias
+        indexItems = withAliasEntries(
+          letter
+            ? items.filter(
+                (item) =>
+                  item.letter === letter || item.extraLetters.includes(letter)
+              )
+            : items,
+          items,
+          letter || undefined
+        );
+      }
 
       if (isDev) console.log(`Fetched ${indexItems.length} items from database`);
 
-      // Store in Vercel KV
-      await kv.set(cacheKey, JSON.stringify(indexItems), { ex: CACHE_TTL });
+      // Store in the cache
+      await cache.set(cacheKey, JSON.stringify(indexItems), { ex: CACHE_TTL });
       if (isDev) console.log(`Cached ${indexItems.length} items with key: ${cacheKey}`);
     } else {
       if (isDev) console.log(`Cache hit for key: ${cacheKey}`);
@@ -132,6 +139,7 @@ export async function GET(req: NextRequest) {
         } catch (parseError) {
           console.error('Error parsing cached data:', parseError);
           indexItems = await prisma.indexitem.findMany({
+            where: { deletedAt: null },
             orderBy: { title: 'asc' },
             select: {
               id: true,
@@ -144,7 +152,7 @@ export async function GET(req: NextRequest) {
           console.log(
             `Fetched ${indexItems.length} items from database after cache parse error`
           );
-          await kv.set(cacheKey, JSON.stringify(indexItems), { ex: CACHE_TTL });
+          await cache.set(cacheKey, JSON.stringify(indexItems), { ex: CACHE_TTL });
           if (isDev) console.log(
             `Re-cached ${indexItems.length} items with key: ${cacheKey}`
           );
@@ -157,6 +165,7 @@ export async function GET(req: NextRequest) {
       } else {
         console.error('Unexpected cache data type:', typeof cachedData);
         indexItems = await prisma.indexitem.findMany({
+          where: { deletedAt: null },
           orderBy: { title: 'asc' },
           select: {
             id: true,
@@ -169,127 +178,137 @@ export async function GET(req: NextRequest) {
         console.log(
           `Fetched ${indexItems.length} items from database due to unexpected cache data`
         );
-        await kv.set(cacheKey, JSON.stringify(indexItems), { ex: CACHE_TTL });
+        await cache.set(cacheKey, JSON.stringify(indexItems), { ex: CACHE_TTL });
         console.log(
           `Re-cached ${indexItems.length} items with key: ${cacheKey}`
         );
       }
     }
 
-    // Get origin and check against whitelist
-    const requestOrigin = req.headers.get('origin');
-    const allowedOrigin = requestOrigin && TRUSTED_ORIGINS.includes(requestOrigin) ? requestOrigin : '*';
-
     return new NextResponse(JSON.stringify(indexItems), {
       status: 200,
       headers: {
-        'Access-Control-Allow-Origin': allowedOrigin,
-        'Access-Control-Allow-Methods': 'GET',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        ...corsHeaders(req),
         'Cache-Control':
           'public, max-age=3600, s-maxage=3600, stale-while-revalidate',
         'Content-Type': 'application/json'
       }
     });
   } catch (error) {
-    console.error('Request error', error);
-    return new NextResponse(JSON.stringify({ error: 'Error fetching data' }), {
-      status: 500,
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
+    return serverError(error, 'Error fetching data');
   }
 }
 
 export async function POST(req: NextRequest) {
   try {
-    // Apply rate limiting
-    const forwardedFor = req.headers.get('x-forwarded-for');
-    const realIp = req.headers.get('x-real-ip');
-    const ip = forwardedFor?.split(',')[0] || realIp || '127.0.0.1';
-    const { success } = await ratelimit.limit(ip);
-
-    if (!success) {
-      if (isDev) console.log(`Rate limit exceeded for IP: ${ip}`);
-      return new NextResponse(JSON.stringify({ error: 'Too Many Requests' }), {
-        status: 429,
-        headers: { 'Content-Type': 'application/json' }
-      });
+    // Sign-in or a write key comes first; campus permissions are checked below
+    const {
+      writer,
+      error: signInError,
+      status: signInStatus
+    } = await authorizeApiWrite(req);
+    if (signInError) return apiError(signInStatus, signInError);
+
+    const body = await readJson(req);
+    if (body === undefined) return invalidJsonError();
+    const parsed = indexItemApiSchema.safeParse(body);
+    if (!parsed.success) return validationError(parsed.error);
+    const {
+      title,
+      url,
+      letter,
+      campus,
+      extraLetters,
+      aliases,
+      keywords,
+      sharedCampuses,
+      districtWide
+    } = parsed.data;
+
+    const campusErrors = checkCampuses(
+      parsed.data,
+      await getCampusNames(true)
+    );
+    if (campusErrors.length > 0) {
+      return apiError(
+        422,
+        campusErrors[0].message,
+        'unprocessable',
+        campusErrors
+      );
     }
 
-    const { title, letter, url, campus } = await req.json();
-
-    const newIndexItem = await prisma.indexitem.create({
-      data: {
-        title: title,
-        letter: letter,
-        url: url,
-        campus: campus
-      }
-    });
+    const {
+      actor,
+      error: authError,
+      status
+    } = authorizeApiCampuses(
+      writer,
+      campus,
+      ...(await getNewlySharedCampuses(parsed.data))
+    );
+    if (authError) return apiError(status, authError);
+
+    const { newIndexItem, error } = await createIndexItem(
+      title,
+      url,
+      letter,
+      campus,
+      actor,
+      { extraLetters, aliases, keywords, sharedCampuses, districtWide }
+    );
+    if (error) throw error;
 
     if (isDev) console.log(`Created new index item: ${JSON.stringify(newIndexItem)}`);
 
-    await purgeAndWarmCache();
+    await invalidateIndexCache([newIndexItem]);
 
-    return new NextResponse(JSON.stringify(newIndexItem), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return NextResponse.json(newIndexItem);
   } catch (error) {
-    console.error('Error creating index item', error);
-    return new NextResponse(
-      JSON.stringify({ error: 'Error creating new index item' }),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+    return serverError(error, 'Error creating new index item');
   }
 }
 
 export async function DELETE(req: NextRequest) {
   try {
-    // Apply rate limiting
-    const forwardedFor = req.headers.get('x-forwarded-for');
-    const realIp = req.headers.get('x-real-ip');
-    const ip = forwardedFor?.split(',')[0] || realIp || '127.0.0.1';
-    const { success } = await ratelimit.limit(ip);
-
-    if (!success) {
-      if (isDev) console.log(`Rate limit exceeded for IP: ${ip}`);
-      return new NextResponse(JSON.stringify({ error: 'Too Many Requests' }), {
-        status: 429,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+    const {
+      writer,
+      error: signInError,
+      status: signInStatus
+    } = await authorizeApiWrite(req);
+    if (signInError) return apiError(signInStatus, signInError);
 
     const id = req.nextUrl.searchParams.get('id');
+    if (!id) {
+      return apiError(400, 'An id is required', 'invalid_parameter', [
+        { field: 'id', code: 'required', message: 'An id is required' }
+      ]);
+    }
 
-    const deletedItem = await prisma.indexitem.delete({
-      where: { id: id! }
+    const existingItem = await prisma.indexitem.findFirst({
+      where: { id, deletedAt: null },
+      select: { campus: true, sharedCampuses: true, districtWide: true }
     });
+    if (!existingItem) return apiError(404, 'Index item not found');
+
+    const {
+      actor,
+      error: authError,
+      status
+    } = authorizeApiCampuses(writer, existingItem.campus);
+    if (authError) return apiError(status, authError);
+
+    const { deletedItem, error } = await deleteIndexItem(id, actor);
+    if (error) throw error;
 
     if (isDev) console.log(`Deleted index item: ${JSON.stringify(deletedItem)}`);
 
-    await purgeAndWarmCache();
+    await invalidateIndexCache([existingItem]);
 
     return new NextResponse(null, {
       status: 204
     });
   } catch (error) {
-    console.error('Error deleting index item', error);
-    return new NextResponse(
-      JSON.stringify({ error: 'Error deleting index item' }),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      }
-    );
+    return serverError(error, 'Error deleting index item');
   }
 }
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runLinkChecks } from '@/lib/linkChecker';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { checkedCount, brokenCount, error } = await runLinkChecks();
+  if (error) {
+    console.error('Link check failed:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Link check failed' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    checkedCount,
+    brokenCount
+  });
+}
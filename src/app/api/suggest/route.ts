@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCampus } from '@/lib/campuses';
+import { getSuggestions } from '@/lib/suggest';
+import { apiError, serverError } from '@/lib/apiErrors';
+import { corsHeaders, guardPublicRequest } from '@/lib/publicApi';
+
+/**
+ * Autocomplete for the public search box: the best matching titles and
+ * aliases for `?q=`, optionally limited to `?campus=` (slug or name).
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { error: guardError, status } = await guardPublicRequest(req);
+    if (guardError) {
+      return apiError(
+        status,
+        guardError,
+        status === 429 ? 'rate_limited' : 'blocked',
+        undefined,
+        corsHeaders(req)
+      );
+    }
+
+    const query = req.nextUrl.searchParams.get('q') || '';
+    const campusParam = req.nextUrl.searchParams.get('campus') || '';
+    let campusName: string | undefined;
+    if (campusParam) {
+      const { campus, error } = await findCampus(campusParam);
+      if (error) throw error;
+      if (!campus) {
+        return apiError(
+          400,
+          `${campusParam} is not a known campus`,
+          'invalid_parameter',
+          undefined,
+          corsHeaders(req)
+        );
+      }
+      campusName = campus.name;
+    }
+
+    const { suggestions, error } = await getSuggestions(query, campusName);
+    if (error) throw error;
+
+    return NextResponse.json(
+      { suggestions },
+      {
+        headers: {
+          ...corsHeaders(req),
+          // Short-lived, since every keystroke is its own URL
+          'Cache-Control':
+            'public, max-age=60, s-maxage=300, stale-while-revalidate=3600'
+        }
+      }
+    );
+  } catch (error) {
+    return serverError(error, 'Error fetching suggestions');
+  }
+}
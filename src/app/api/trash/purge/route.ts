@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredIndexItems } from '@/lib/trash';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  if (!isAuthorizedCronRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { purgedCount, error } = await purgeExpiredIndexItems({
+    source: 'CRON'
+  });
+  if (error) {
+    console.error('Trash purge failed:', error);
+    return NextResponse.json(
+      { status: 'error', message: 'Trash purge failed' },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    purgedCount
+  });
+}
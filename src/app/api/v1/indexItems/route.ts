@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listIndexItems, parseListParams } from '@/lib/apiV1';
+import { apiError } from '@/lib/apiErrors';
+import { getCache } from '@/lib/store';
+import { getIndexCacheKey } from '@/lib/cache';
+import { findCampus } from '@/lib/campuses';
+import { corsHeaders, guardPublicRequest } from '@/lib/publicApi';
+
+const CACHE_TTL = 60 * 60; // 1 hour, matches the unversioned route
+
+type ListResponse = Awaited<ReturnType<typeof listIndexItems>>;
+
+export async function GET(req: NextRequest) {
+  const { error: guardError, status } = await guardPublicRequest(req);
+  if (guardError) {
+    return apiError(
+      status,
+      guardError,
+      status === 429 ? 'rate_limited' : 'blocked',
+      undefined,
+      corsHeaders(req)
+    );
+  }
+
+  const url = req.nextUrl;
+  const { params, error: paramsError } = parseListParams(url.searchParams);
+  if (paramsError) {
+    return apiError(
+      400,
+      paramsError,
+      'invalid_parameter',
+      undefined,
+      corsHeaders(req)
+    );
+  }
+
+  try {
+    if (params.campus) {
+      const { campus, error } = await findCampus(params.campus);
+      if (error) throw error;
+      if (!campus) {
+        return apiError(
+          400,
+          `${params.campus} is not a known campus`,
+          'invalid_parameter',
+          undefined,
+          corsHeaders(req)
+        );
+      }
+      params.campus = campus.name;
+    }
+
+    // Keys stop being read as soon as items on the campus change
+    const cacheKey = await getIndexCacheKey(
+      params.campus,
+      'v1',
+      JSON.stringify(params)
+    );
+    let result = await getCache().get<ListResponse>(cacheKey);
+    if (!result) {
+      result = await listIndexItems(params);
+      if (result.error) throw result.error;
+      await getCache().set(cacheKey, result, { ex: CACHE_TTL });
+    }
+
+    const next = new URL(url);
+    if (result.meta.nextCursor) {
+      next.searchParams.set('cursor', result.meta.nextCursor);
+    }
+    return NextResponse.json(
+      {
+        data: result.data,
+        meta: result.meta,
+        links: {
+          self: url.toString(),
+          next: result.meta.nextCursor ? next.toString() : null
+        }
+      },
+      {
+        headers: {
+          ...corsHeaders(req),
+          'Cache-Control':
+            'public, max-age=3600, s-maxage=3600, stale-while-revalidate'
+        }
+      }
+    );
+  } catch (error) {
+    console.error('Error listing index items', error);
+    return apiError(
+      500,
+      'Error fetching data',
+      'internal_error',
+      undefined,
+      corsHeaders(req)
+    );
+  }
+}
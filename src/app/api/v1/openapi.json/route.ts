@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openApiDocument } from '@/lib/openapi';
+import { corsHeaders } from '@/lib/publicApi';
+
+export function GET(req: NextRequest) {
+  return NextResponse.json(openApiDocument, {
+    headers: {
+      ...corsHeaders(req),
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600'
+    }
+  });
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { startTransition, useActionState } from 'react';
+import SubmitButton from './SubmitButton';
+
+export interface ActionFormState {
+  error?: string;
+}
+
+interface ActionFormProps {
+  action: (
+    state: ActionFormState,
+    formData: FormData
+  ) => Promise<ActionFormState>;
+  className?: string;
+  submitLabel: React.ReactNode;
+  pendingText?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * A form for a server action that reports errors back instead of redirecting,
+ * shown above the submit button. The fields keep what was typed on an error.
+ */
+export default function ActionForm({
+  action,
+  className,
+  submitLabel,
+  pendingText,
+  children
+}: ActionFormProps) {
+  const [state, formAction, pending] = useActionState(action, {});
+
+  // Submitting from script stops React from resetting the fields afterwards
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData(event.currentTarget);
+    startTransition(() => formAction(formData));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={className}>
+      {children}
+      {state.error && (
+        <p role="alert" className="text-sm text-red-700">
+          {state.error}
+        </p>
+      )}
+      <div className="mt-5">
+        <SubmitButton pending={pending} pendingText={pendingText}>
+          {submitLabel}
+        </SubmitButton>
+      </div>
+    </form>
+  );
+}
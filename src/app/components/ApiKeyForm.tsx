@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import type { ApiKeyScope } from '@prisma/client';
+import { Button } from '@/components/ui/button';
+import { createApiKeyAction } from '../_actions';
+
+const inputClassName =
+  'block w-full rounded-md border-0 py-1.5 text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 placeholder:text-gray-400 focus:ring-2 focus:ring-inset focus:ring-indigo-600 sm:text-sm sm:leading-6';
+const labelClassName = 'block text-sm font-medium leading-6 text-gray-900';
+
+interface ApiKeyFormProps {
+  scopeLabels: Record<ApiKeyScope, string>;
+}
+
+const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ scopeLabels }) => {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [token, setToken] = useState('');
+
+  async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+    setLoading(true);
+    setMessage('');
+    setToken('');
+    try {
+      const result = await createApiKeyAction(
+        formData.get('label') as string,
+        formData.get('owner') as string,
+        formData.getAll('scopes') as ApiKeyScope[],
+        (formData.get('expiresAt') as string) || undefined
+      );
+      if (result.error) {
+        setMessage(result.error);
+        return;
+      }
+      setToken(result.token);
+      form.reset();
+      router.refresh();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="max-w-3xl space-y-4">
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+        <div className="flex flex-col flex-1">
+          <label htmlFor="label" className={labelClassName}>
+            Label
+          </label>
+          <input
+            id="label"
+            name="label"
+            type="text"
+            required
+            placeholder="Portal sync job"
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col flex-1">
+          <label htmlFor="owner" className={labelClassName}>
+            Owner email
+          </label>
+          <input
+            id="owner"
+            name="owner"
+            type="email"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor="expiresAt" className={labelClassName}>
+            Expires
+          </label>
+          <input
+            id="expiresAt"
+            name="expiresAt"
+            type="date"
+            className={inputClassName}
+          />
+        </div>
+        <fieldset className="flex items-center gap-4 py-1.5">
+          <legend className="sr-only">Scopes</legend>
+          {(Object.keys(scopeLabels) as ApiKeyScope[]).map((scope) => (
+            <label
+              key={scope}
+              className="flex items-center text-sm font-medium leading-6 text-gray-900"
+            >
+              <input
+                type="checkbox"
+                name="scopes"
+                value={scope}
+                defaultChecked={scope === 'READ'}
+                className="w-4 h-4 mr-2 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+              />
+              {scopeLabels[scope]}
+            </label>
+          ))}
+        </fieldset>
+        <Button type="submit" disabled={loading}>
+          {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Create Key
+        </Button>
+      </form>
+      {message && <p className="text-sm text-red-700">{message}</p>}
+      {token && (
+        <div className="p-4 space-y-2 border border-yellow-300 rounded-md bg-yellow-50">
+          <p className="text-sm font-medium text-yellow-900">
+            Copy this key now. It won&apos;t be shown again.
+          </p>
+          <code className="block p-2 text-sm break-all bg-white border rounded select-all">
+            {token}
+          </code>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeyForm;
@@ -16,7 +16,7 @@ export default function DeleteButton({ id, itemName }: DeleteButtonProps) {
 
   const handleDelete = async (id: string, itemName: string) => {
     const confirmDelete = window.confirm(
-      `Are you sure you want to delete ${itemName}?`
+      `Are you sure you want to delete ${itemName}? It can be restored from the Trash.`
     );
     if (confirmDelete) {
       setLoading(true);
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { deleteIndexItemAction, mergeDuplicatesAction } from '../_actions';
+import type { DuplicateGroup } from '@/lib/duplicates';
+
+interface DuplicateGroupsProps {
+  groups: DuplicateGroup[];
+  editableCampuses: string[];
+}
+
+const DuplicateGroupCard: React.FC<{
+  group: DuplicateGroup;
+  editableCampuses: string[];
+}> = ({ group, editableCampuses }) => {
+  const router = useRouter();
+  const [keepId, setKeepId] = useState(group.items[0].id);
+  // Copies made for each college usually want to become one shared item
+  const [share, setShare] = useState(group.crossCampus);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const canEditGroup = group.items.every((item) =>
+    editableCampuses.includes(item.campus)
+  );
+
+  async function handleMerge() {
+    const removeIds = group.items
+      .map((item) => item.id)
+      .filter((id) => id !== keepId);
+    if (
+      !confirm(
+        share
+          ? `Keep the selected item, list it on the other items' campuses and move ${removeIds.length} duplicate(s) to the Trash?`
+          : `Keep the selected item and move ${removeIds.length} duplicate(s) to the Trash?`
+      )
+    ) {
+      return;
+    }
+    setLoading(true);
+    setError('');
+    try {
+      const result = await mergeDuplicatesAction(keepId, removeIds, share);
+      if (result.error) {
+        setError(result.error);
+      } else {
+        router.refresh();
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Move this item to the Trash?')) return;
+    setLoading(true);
+    setError('');
+    try {
+      await deleteIndexItemAction(id);
+      router.refresh();
+    } catch {
+      setError('Unable to delete the item');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="bg-white border rounded-md">
+      <div className="flex items-center gap-3 px-4 py-2 border-b bg-gray-50">
+        <span className="text-sm font-semibold text-gray-900">
+          {group.items.length} items
+        </span>
+        <span className="text-xs text-gray-600">
+          Same {group.reasons.join(' and ')}
+        </span>
+        {group.crossCampus && (
+          <span className="px-2 py-0.5 text-xs text-indigo-900 bg-indigo-100 rounded">
+            Across campuses
+          </span>
+        )}
+        {canEditGroup && group.crossCampus && (
+          <label className="flex items-center ml-auto text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={share}
+              onChange={(event) => setShare(event.target.checked)}
+              className="w-4 h-4 mr-2 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+            />
+            Share with their campuses
+          </label>
+        )}
+        {canEditGroup && (
+          <Button
+            type="button"
+            size="sm"
+            className={group.crossCampus ? undefined : 'ml-auto'}
+            onClick={handleMerge}
+            disabled={loading}
+          >
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Merge into selected
+          </Button>
+        )}
+      </div>
+      {error && <p className="px-4 pt-2 text-sm text-red-700">{error}</p>}
+      <ul className="divide-y">
+        {group.items.map((item) => (
+          <li key={item.id} className="flex items-start gap-3 px-4 py-2">
+            <input
+              type="radio"
+              name={`keep-${group.items[0].id}`}
+              aria-label={`Keep ${item.title}`}
+              checked={keepId === item.id}
+              onChange={() => setKeepId(item.id)}
+              disabled={!canEditGroup}
+              className="w-4 h-4 mt-1 text-indigo-600 border-gray-300 focus:ring-indigo-600"
+            />
+            <div className="flex-1 text-sm">
+              <Link
+                href={`/admin/edit/${item.id}`}
+                className="font-medium text-gray-900 hover:underline hover:text-indigo-900"
+              >
+                {item.title}
+              </Link>{' '}
+              <span className="text-gray-600">
+                ({item.letter}) {item.campus}
+              </span>
+              <div className="text-xs text-gray-500 break-all">{item.url}</div>
+            </div>
+            {editableCampuses.includes(item.campus) && (
+              <button
+                className="px-3 py-1 text-sm font-semibold text-red-900 bg-red-200 rounded shadow-sm hover:bg-red-300 disabled:opacity-50"
+                onClick={() => handleDelete(item.id)}
+                disabled={loading}
+              >
+                Delete <span className="sr-only">{item.title}</span>
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const DuplicateGroups: React.FC<DuplicateGroupsProps> = ({
+  groups,
+  editableCampuses
+}) => {
+  if (groups.length === 0) {
+    return <p className="text-sm text-gray-600">No duplicates found.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map((group) => (
+        <DuplicateGroupCard
+          key={group.items.map((item) => item.id).join()}
+          group={group}
+          editableCampuses={editableCampuses}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default DuplicateGroups;
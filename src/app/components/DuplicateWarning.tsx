@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { TriangleAlert } from 'lucide-react';
+import { findLikelyDuplicatesAction } from '../_actions';
+import type { DuplicateMatch } from '@/lib/duplicates';
+
+// Wait for typing to pause before checking
+const CHECK_DELAY_MS = 500;
+
+interface DuplicateWarningProps {
+  title: string;
+  url: string;
+  campus: string;
+  excludeId?: string;
+}
+
+/**
+ * Warns when the title or URL being entered matches an existing item.
+ */
+const DuplicateWarning: React.FC<DuplicateWarningProps> = ({
+  title,
+  url,
+  campus,
+  excludeId
+}) => {
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+
+  useEffect(() => {
+    if (!title.trim() && !url.trim()) {
+      setDuplicates([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await findLikelyDuplicatesAction(title, url, excludeId);
+      if (!cancelled) setDuplicates(result.duplicates ?? []);
+    }, CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [title, url, excludeId]);
+
+  if (duplicates.length === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className="p-4 text-sm text-yellow-900 border border-yellow-300 rounded-md bg-yellow-50"
+    >
+      <p className="flex items-center gap-2 font-semibold">
+        <TriangleAlert className="w-4 h-4" />
+        This looks like a duplicate of {duplicates.length} existing item
+        {duplicates.length === 1 ? '' : 's'}
+      </p>
+      <ul className="mt-2 space-y-1">
+        {duplicates.map((duplicate) => (
+          <li key={duplicate.id}>
+            <Link
+              href={`/admin/edit/${duplicate.id}`}
+              className="underline hover:text-yellow-700"
+            >
+              {duplicate.title}
+            </Link>{' '}
+            ({duplicate.campus}
+            {duplicate.campus === campus && ', same campus'}) — matching{' '}
+            {duplicate.reasons.join(' and ')}
+            <div className="text-xs break-all">{duplicate.url}</div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicateWarning;
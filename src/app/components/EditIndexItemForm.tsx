@@ -1,43 +1,36 @@
 'use client';
 
 import { useForm, SubmitHandler } from 'react-hook-form';
-import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Button } from '@/components/ui/button';
 import { FormMessage } from '@/components/ui/form';
 import { useRouter } from 'next/router';
-
-const campusInfo = [
-  { id: 'collegeOfSanMateo', value: 'College of San Mateo' },
-  { id: 'canadaCollege', value: 'Cañada College' },
-  { id: 'districtOffice', value: 'District Office' },
-  { id: 'skylineCollege', value: 'Skyline College' }
-];
+import { indexItemSchema } from '@/lib/indexItemSchema';
+import { deriveLetter } from '@/lib/letters';
+import SeeAlsoLetters from './SeeAlsoLetters';
+import type { CampusOption } from '@/lib/campuses';
 
 interface FormValues {
   title: string;
   url: string;
   letter: string;
+  extraLetters?: string[];
+  aliases?: string[];
+  keywords?: string[];
   campus: string;
+  sharedCampuses?: string[];
+  districtWide?: boolean;
 }
 
 interface Props {
   defaultValues: FormValues;
+  campuses: CampusOption[];
 }
 
-const EditIndexItemForm: React.FC<Props> = ({ defaultValues }) => {
+const EditIndexItemForm: React.FC<Props> = ({ defaultValues, campuses }) => {
   const router = useRouter();
-  const formSchema = z.object({
-    title: z.string().min(1, { message: 'Title is required' }),
-    url: z.string().url({ message: 'URL must be valid' }),
-    letter: z
-      .string()
-      .length(1, { message: 'Letter must be a single character' }),
-    campus: z.string().min(1, { message: 'Campus is required' })
-  });
-
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(indexItemSchema),
     defaultValues
   });
 
@@ -75,20 +68,76 @@ const EditIndexItemForm: React.FC<Props> = ({ defaultValues }) => {
         {...form.register('letter')}
         type="text"
         maxLength={1}
+        placeholder={deriveLetter(form.watch('title'))}
+        className="input"
+      />
+
+      <label>See also letters</label>
+      <SeeAlsoLetters
+        value={form.watch('extraLetters') ?? []}
+        onChange={(letters) => form.setValue('extraLetters', letters)}
+        primaryLetter={
+          form.watch('letter').toUpperCase() ||
+          deriveLetter(form.watch('title'))
+        }
+      />
+
+      <label htmlFor="aliases">Aliases (one per line)</label>
+      <textarea
+        id="aliases"
+        value={(form.watch('aliases') ?? []).join('\n')}
+        onChange={(event) =>
+          form.setValue('aliases', event.target.value.split('\n'))
+        }
+        rows={3}
+        className="input"
+      />
+
+      <label htmlFor="keywords">Search keywords (comma-separated)</label>
+      <input
+        id="keywords"
+        value={(form.watch('keywords') ?? []).join(',')}
+        onChange={(event) =>
+          form.setValue('keywords', event.target.value.split(','))
+        }
+        type="text"
         className="input"
       />
 
       <fieldset>
         <legend>Campus</legend>
-        {campusInfo.map((campus) => (
-          <div key={campus.id}>
+        {campuses.map((campus) => (
+          <div key={campus.slug}>
             <input
               {...form.register('campus')}
               type="radio"
-              value={campus.value}
-              id={campus.id}
+              value={campus.name}
+              id={`campus-${campus.slug}`}
+            />
+            <label htmlFor={`campus-${campus.slug}`}>{campus.name}</label>
+          </div>
+        ))}
+      </fieldset>
+
+      <fieldset>
+        <legend>Also listed on</legend>
+        <div>
+          <input
+            {...form.register('districtWide')}
+            type="checkbox"
+            id="districtWide"
+          />
+          <label htmlFor="districtWide">Every campus (district-wide)</label>
+        </div>
+        {campuses.map((campus) => (
+          <div key={campus.slug}>
+            <input
+              {...form.register('sharedCampuses')}
+              type="checkbox"
+              value={campus.name}
+              id={`shared-${campus.slug}`}
             />
-            <label htmlFor={campus.id}>{campus.value}</label>
+            <label htmlFor={`shared-${campus.slug}`}>{campus.name}</label>
           </div>
         ))}
       </fieldset>
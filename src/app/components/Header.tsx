@@ -9,6 +9,14 @@ const Header = async () => {
             <Link href="/admin" className="text-2xl">
               SMCCCD Site Index
             </Link>
+            <span className="flex gap-6">
+              <Link href="/search" className="hover:underline">
+                Search
+              </Link>
+              <Link href="/letter" className="hover:underline">
+                Browse A–Z
+              </Link>
+            </span>
           </li>
         </ul>
       </nav>
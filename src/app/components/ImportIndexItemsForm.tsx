@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { importIndexItemsAction, previewImportAction } from '../_actions';
+import type { ImportPreviewRow } from '@/lib/importIndexItems';
+import { cn } from '@/lib/utils';
+
+const ImportIndexItemsForm: React.FC = () => {
+  const router = useRouter();
+  const [csvText, setCsvText] = useState('');
+  const [rows, setRows] = useState<ImportPreviewRow[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const importableRows = rows.filter(
+    (row) => row.errors.length === 0 && (includeDuplicates || !row.duplicateOf)
+  );
+
+  async function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    setRows([]);
+    setMessage('');
+    setError('');
+    if (!file) return;
+
+    const text = await file.text();
+    setCsvText(text);
+    setLoading(true);
+    try {
+      const result = await previewImportAction(text);
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setRows(result.rows ?? []);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleImport() {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await importIndexItemsAction(csvText, includeDuplicates);
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setMessage(`Imported ${result.importedCount} index items.`);
+        setRows([]);
+        setCsvText('');
+        router.refresh();
+      }
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label
+          htmlFor="csvFile"
+          className="block mb-2 text-sm font-medium leading-6 text-gray-900"
+        >
+          CSV file with <code>title,url,campus</code> columns and an optional{' '}
+          <code>letter</code> column
+        </label>
+        <input
+          id="csvFile"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="block text-sm text-gray-900"
+        />
+      </div>
+
+      {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      {message && <p className="text-sm text-green-800">{message}</p>}
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex items-center gap-4">
+            <Button
+              type="button"
+              onClick={handleImport}
+              disabled={loading || importableRows.length === 0}
+            >
+              Import {importableRows.length} of {rows.length} rows
+            </Button>
+            <label className="flex items-center text-sm text-gray-900">
+              <input
+                type="checkbox"
+                checked={includeDuplicates}
+                onChange={(event) => setIncludeDuplicates(event.target.checked)}
+                className="w-4 h-4 mr-2 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+              />
+              Include likely duplicates
+            </label>
+          </div>
+          <div className="overflow-auto bg-white border rounded-md">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900">
+                    Line
+                  </th>
+                  <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                    Title
+                  </th>
+                  <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                    URL
+                  </th>
+                  <th className="py-3.5 px-3 text-center text-sm font-semibold text-gray-900">
+                    Letter
+                  </th>
+                  <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                    Campus
+                  </th>
+                  <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                    Status
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.line}
+                    className={cn(
+                      'border-b-2 border-b-slate-100',
+                      row.errors.length > 0 && 'bg-red-50',
+                      row.errors.length === 0 &&
+                        row.duplicateOf &&
+                        'bg-yellow-50'
+                    )}
+                  >
+                    <td className="py-2 pl-4 pr-3 text-sm text-gray-600">
+                      {row.line}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {row.title}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900 break-all">
+                      {row.url}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-center text-gray-900">
+                      {row.letter}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-gray-900">
+                      {row.campus}
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      {row.errors.length > 0 ? (
+                        <ul className="text-red-700">
+                          {row.errors.map((rowError) => (
+                            <li key={rowError}>{rowError}</li>
+                          ))}
+                        </ul>
+                      ) : row.duplicateOf ? (
+                        <span className="text-yellow-800">
+                          Likely duplicate of {row.duplicateOf}
+                        </span>
+                      ) : (
+                        <span className="text-green-800">Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportIndexItemsForm;
@@ -3,7 +3,6 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useForm, SubmitHandler } from 'react-hook-form';
-import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { createIndexItemAction } from '../_actions';
 import { Button } from '@/components/ui/button';
@@ -14,51 +13,80 @@ import {
   FormItem,
   FormLabel,
   FormControl,
+  FormDescription,
   FormMessage
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
-
-const campusInfo = [
-  { id: 'collegeOfSanMateo', value: 'College of San Mateo' },
-  { id: 'canadaCollege', value: 'Cañada College' },
-  { id: 'districtOffice', value: 'District Office' },
-  { id: 'skylineCollege', value: 'Skyline College' }
-];
-
-const formSchema = z.object({
-  title: z.string().min(1, { message: 'Title is required' }),
-  url: z.string().url({ message: 'URL must be valid' }),
-  letter: z
-    .string()
-    .length(1, { message: 'Letter must be a single character' }),
-  campus: z.string().min(1, { message: 'Campus is required' })
-});
+import { Textarea } from '@/components/ui/textarea';
+import { indexItemSchema } from '@/lib/indexItemSchema';
+import { deriveLetter } from '@/lib/letters';
+import DuplicateWarning from './DuplicateWarning';
+import SeeAlsoLetters from './SeeAlsoLetters';
+import type { CampusOption } from '@/lib/campuses';
 
 interface FormValues {
   title: string;
   url: string;
   letter: string;
+  extraLetters: string[];
+  aliases: string[];
+  keywords: string[];
   campus: string;
+  sharedCampuses: string[];
+  districtWide: boolean;
+}
+
+interface Props {
+  campuses: CampusOption[];
+  // Campuses the signed-in user may add items to or share items with
+  editableCampuses: string[];
 }
 
-const NewIndexItemForm: React.FC = () => {
+const NewIndexItemForm: React.FC<Props> = ({ campuses, editableCampuses }) => {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const canShareDistrictWide = campuses.every((campus) =>
+    editableCampuses.includes(campus.name)
+  );
   const form = useForm<FormValues>({
-    resolver: zodResolver(formSchema),
+    resolver: zodResolver(indexItemSchema),
     defaultValues: {
       title: '',
       url: '',
       letter: '',
-      campus: ''
+      extraLetters: [],
+      aliases: [],
+      keywords: [],
+      campus: '',
+      sharedCampuses: [],
+      districtWide: false
     }
   });
+  const derivedLetter = deriveLetter(form.watch('title'));
 
   const onSubmit: SubmitHandler<FormValues> = async (data, event) => {
     const submitType = (event?.nativeEvent as any).submitter.name;
     setLoading(true);
+    setError('');
     try {
-      await createIndexItemAction(data.title, data.url, data.letter, data.campus);
+      const { error: createError } = await createIndexItemAction(
+        data.title,
+        data.url,
+        data.letter,
+        data.campus,
+        {
+          extraLetters: data.extraLetters,
+          aliases: data.aliases,
+          keywords: data.keywords,
+          sharedCampuses: data.sharedCampuses,
+          districtWide: data.districtWide
+        }
+      );
+      if (createError) {
+        setError(createError);
+        return;
+      }
       if (submitType === 'addAndContinue') {
         form.reset();
       } else {
@@ -116,8 +144,85 @@ const NewIndexItemForm: React.FC = () => {
             <FormItem>
               <FormLabel>Letter</FormLabel>
               <FormControl>
-                <Input {...field} placeholder="A" maxLength={1} />
+                <Input
+                  {...field}
+                  placeholder={derivedLetter || 'A'}
+                  maxLength={1}
+                />
               </FormControl>
+              <FormDescription>
+                Leave blank to file under the first letter of the title
+                {derivedLetter && ` (${derivedLetter})`}.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="extraLetters"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>See Also Letters</FormLabel>
+              <SeeAlsoLetters
+                value={field.value}
+                onChange={field.onChange}
+                primaryLetter={
+                  form.watch('letter').toUpperCase() || derivedLetter
+                }
+              />
+              <FormDescription>
+                Also list this item under these letters.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="aliases"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Aliases</FormLabel>
+              <FormControl>
+                <Textarea
+                  value={field.value.join('\n')}
+                  onChange={(event) =>
+                    field.onChange(event.target.value.split('\n'))
+                  }
+                  onBlur={field.onBlur}
+                  placeholder="Transcripts"
+                  rows={3}
+                />
+              </FormControl>
+              <FormDescription>
+                Other names for this page, one per line. Each is listed on the
+                A-Z pages as &quot;Alias — see Title&quot;.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="keywords"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Search Keywords</FormLabel>
+              <FormControl>
+                <Input
+                  value={field.value.join(',')}
+                  onChange={(event) =>
+                    field.onChange(event.target.value.split(','))
+                  }
+                  onBlur={field.onBlur}
+                  placeholder="FAFSA, parking permit"
+                />
+              </FormControl>
+              <FormDescription>
+                Comma-separated terms that find this item in search without
+                being shown.
+              </FormDescription>
               <FormMessage />
             </FormItem>
           )}
@@ -129,21 +234,22 @@ const NewIndexItemForm: React.FC = () => {
             <FormItem>
               <FormLabel>Campus</FormLabel>
               <div className="space-y-4">
-                {campusInfo.map((campus) => (
-                  <div key={campus.id} className="flex items-center">
+                {campuses.map((campus) => (
+                  <div key={campus.slug} className="flex items-center">
                     <input
-                      id={campus.id}
+                      id={`campus-${campus.slug}`}
                       type="radio"
-                      value={campus.value}
-                      checked={field.value === campus.value}
-                      onChange={() => field.onChange(campus.value)}
+                      value={campus.name}
+                      checked={field.value === campus.name}
+                      onChange={() => field.onChange(campus.name)}
+                      disabled={!editableCampuses.includes(campus.name)}
                       className="w-4 h-4 text-indigo-600 border-gray-300 focus:ring-indigo-600"
                     />
                     <label
-                      htmlFor={campus.id}
+                      htmlFor={`campus-${campus.slug}`}
                       className="ml-3 text-sm font-medium leading-6 text-gray-900"
                     >
-                      {campus.value}
+                      {campus.name}
                     </label>
                   </div>
                 ))}
@@ -152,6 +258,74 @@ const NewIndexItemForm: React.FC = () => {
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="sharedCampuses"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Also listed on</FormLabel>
+              <div className="space-y-4">
+                <div className="flex items-center">
+                  <input
+                    id="districtWide"
+                    type="checkbox"
+                    checked={form.watch('districtWide')}
+                    onChange={(event) =>
+                      form.setValue('districtWide', event.target.checked)
+                    }
+                    disabled={!canShareDistrictWide}
+                    className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+                  />
+                  <label
+                    htmlFor="districtWide"
+                    className="ml-3 text-sm font-medium leading-6 text-gray-900"
+                  >
+                    Every campus (district-wide)
+                  </label>
+                </div>
+                {campuses
+                  .filter((campus) => campus.name !== form.watch('campus'))
+                  .map((campus) => (
+                    <div key={campus.slug} className="flex items-center">
+                      <input
+                        id={`shared-${campus.slug}`}
+                        type="checkbox"
+                        checked={field.value.includes(campus.name)}
+                        disabled={!editableCampuses.includes(campus.name)}
+                        onChange={(event) =>
+                          field.onChange(
+                            event.target.checked
+                              ? [...field.value, campus.name]
+                              : field.value.filter(
+                                  (name) => name !== campus.name
+                                )
+                          )
+                        }
+                        className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+                      />
+                      <label
+                        htmlFor={`shared-${campus.slug}`}
+                        className="ml-3 text-sm font-medium leading-6 text-gray-900"
+                      >
+                        {campus.name}
+                      </label>
+                    </div>
+                  ))}
+              </div>
+              <FormDescription>
+                Shared items appear in each campus&apos;s index but are edited
+                by their own campus.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <DuplicateWarning
+          title={form.watch('title')}
+          url={form.watch('url')}
+          campus={form.watch('campus')}
+        />
+        {error && <p className="text-sm text-red-700">{error}</p>}
         <div className="space-x-4">{submitButtons}</div>
       </form>
     </Form>
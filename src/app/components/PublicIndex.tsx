@@ -0,0 +1,208 @@
+'use client';
+
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { INDEX_LETTERS } from '@/lib/letters';
+import { isListedOn, type LetterGroup } from '@/lib/listing';
+import type { CampusOption } from '@/lib/campuses';
+import { cn } from '@/lib/utils';
+
+type PublicCampus = CampusOption & { primaryColor: string | null };
+
+interface PublicIndexProps {
+  campuses: PublicCampus[];
+  // The groups to show: one letter, or all of them on the all-letters page
+  groups: LetterGroup[];
+  // Per-letter counts keyed by campus slug, with '' for every campus
+  counts: Record<string, Record<string, number>>;
+  // The letter being shown; undefined on the all-letters page
+  letter?: string;
+}
+
+interface IndexViewProps extends PublicIndexProps {
+  campusSlug: string;
+}
+
+function IndexView({
+  campuses,
+  groups,
+  counts,
+  letter,
+  campusSlug
+}: IndexViewProps) {
+  const campus = campuses.find((option) => option.slug === campusSlug);
+  const query = campus ? `?campus=${campus.slug}` : '';
+  const letterCounts = counts[campus?.slug ?? ''] ?? {};
+  const visibleGroups = groups
+    .map((group) => ({
+      letter: group.letter,
+      entries: campus
+        ? group.entries.filter((entry) => isListedOn(entry, campus.name))
+        : group.entries
+    }))
+    .filter((group) => group.entries.length > 0);
+  const basePath = letter ? `/letter/${letter}` : '/letter';
+
+  return (
+    <div className="container max-w-5xl px-4 py-8 mx-auto">
+      <h1 className="text-3xl font-bold text-gray-900">
+        {letter ? `Site Index: ${letter}` : 'Site Index: A–Z'}
+      </h1>
+      <p className="mt-1 text-gray-600">
+        {campus ? campus.name : 'All campuses'}
+      </p>
+
+      <nav aria-label="Campus" className="flex flex-wrap gap-2 mt-6">
+        {[undefined, ...campuses].map((option) => {
+          const active = option?.slug === campus?.slug;
+          return (
+            <Link
+              key={option?.slug ?? 'all'}
+              href={option ? `${basePath}?campus=${option.slug}` : basePath}
+              aria-current={active ? 'page' : undefined}
+              className={cn(
+                'px-3 py-1 text-sm font-medium border rounded-full',
+                active
+                  ? 'text-white bg-indigo-800 border-indigo-800'
+                  : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-100'
+              )}
+              style={
+                active && option?.primaryColor
+                  ? {
+                      backgroundColor: option.primaryColor,
+                      borderColor: option.primaryColor
+                    }
+                  : undefined
+              }
+            >
+              {option ? option.name : 'All campuses'}
+            </Link>
+          );
+        })}
+      </nav>
+
+      <nav
+        aria-label="Letters"
+        className="sticky top-0 z-10 flex flex-wrap gap-1 py-3 mt-4 border-b bg-gray-50"
+      >
+        <Link
+          href={`/letter${query}`}
+          aria-current={letter ? undefined : 'page'}
+          className={cn(
+            'px-2 py-1 text-sm font-semibold rounded',
+            letter
+              ? 'text-indigo-700 hover:bg-indigo-100'
+              : 'text-white bg-indigo-800'
+          )}
+        >
+          All
+        </Link>
+        {INDEX_LETTERS.map((indexLetter) => {
+          const count = letterCounts[indexLetter] ?? 0;
+          if (count === 0) {
+            return (
+              <span
+                key={indexLetter}
+                aria-disabled="true"
+                className="w-8 px-1 py-1 text-sm text-center text-gray-300 cursor-default"
+              >
+                {indexLetter}
+              </span>
+            );
+          }
+          return (
+            <Link
+              key={indexLetter}
+              // Jump within the page when every letter is already shown
+              href={
+                letter
+                  ? `/letter/${indexLetter}${query}`
+                  : `${query}#letter-${indexLetter}`
+              }
+              aria-current={indexLetter === letter ? 'page' : undefined}
+              aria-label={`${indexLetter}, ${count} ${count === 1 ? 'item' : 'items'}`}
+              className={cn(
+                'w-8 px-1 py-1 text-sm font-semibold text-center rounded',
+                indexLetter === letter
+                  ? 'text-white bg-indigo-800'
+                  : 'text-indigo-700 hover:bg-indigo-100'
+              )}
+            >
+              {indexLetter}
+              <span className="block text-[10px] font-normal leading-none opacity-75">
+                {count}
+              </span>
+            </Link>
+          );
+        })}
+      </nav>
+
+      {visibleGroups.length === 0 ? (
+        <p className="mt-12 text-xl text-center text-gray-600">
+          No items found
+          {letter ? ` under ${letter}` : ''}
+          {campus ? ` for ${campus.name}` : ''}.
+        </p>
+      ) : (
+        visibleGroups.map((group) => (
+          <section
+            key={group.letter}
+            id={`letter-${group.letter}`}
+            className="mt-8 scroll-mt-24"
+          >
+            <h2 className="pb-1 text-2xl font-bold text-indigo-800 border-b border-indigo-200">
+              {group.letter}
+            </h2>
+            <ul className="grid gap-x-8 gap-y-2 mt-3 sm:grid-cols-2">
+              {group.entries.map((entry) => (
+                <li key={`${entry.id}:${entry.title}`}>
+                  <a
+                    className="font-medium text-indigo-700 hover:underline"
+                    href={entry.url}
+                  >
+                    {entry.title}
+                  </a>
+                  {entry.aliasOf && (
+                    <span className="text-gray-600">
+                      {' '}
+                      — see {entry.aliasOf}
+                    </span>
+                  )}
+                  {!campus && (
+                    <span className="block text-xs text-gray-500">
+                      {entry.districtWide ? 'All campuses' : entry.campus}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
+
+function CampusAwareIndex(props: PublicIndexProps) {
+  const searchParams = useSearchParams();
+  return (
+    <IndexView
+      {...props}
+      campusSlug={searchParams.get('campus')?.toLowerCase() ?? ''}
+    />
+  );
+}
+
+/**
+ * The public A-Z listing with its campus switcher and letter jump bar. The
+ * page is built statically for every campus at once; the `?campus=` filter is
+ * applied in the browser, and the unfiltered listing is what gets prerendered.
+ */
+export default function PublicIndex(props: PublicIndexProps) {
+  return (
+    <Suspense fallback={<IndexView {...props} campusSlug="" />}>
+      <CampusAwareIndex {...props} />
+    </Suspense>
+  );
+}
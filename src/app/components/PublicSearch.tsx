@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useId, useState } from 'react';
+import { Search } from 'lucide-react';
+import type { CampusOption } from '@/lib/campuses';
+import type { Suggestion } from '@/lib/suggest';
+import { cn } from '@/lib/utils';
+
+// Wait for typing to pause before asking for suggestions
+const SUGGEST_DELAY_MS = 200;
+// Shorter queries get no suggestions from /api/suggest
+const MIN_QUERY_LENGTH = 2;
+
+interface PublicSearchProps {
+  campuses: CampusOption[];
+  // The search being shown, if any
+  query: string;
+  campusSlug: string;
+}
+
+/**
+ * The public search box. Suggestions appear as the visitor types and open
+ * the page directly; submitting shows the full results.
+ */
+const PublicSearch: React.FC<PublicSearchProps> = ({
+  campuses,
+  query,
+  campusSlug
+}) => {
+  const listId = useId();
+  const [text, setText] = useState(query);
+  const [campus, setCampus] = useState(campusSlug);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  useEffect(() => {
+    const trimmed = text.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: trimmed });
+      if (campus) params.set('campus', campus);
+      try {
+        const response = await fetch(`/api/suggest?${params}`, {
+          signal: controller.signal
+        });
+        if (!response.ok) return;
+        const data = await response.json();
+        setSuggestions(data.suggestions ?? []);
+        setActiveIndex(-1);
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Failed to fetch suggestions:', error);
+        }
+      }
+    }, SUGGEST_DELAY_MS);
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [text, campus]);
+
+  const showSuggestions = open && suggestions.length > 0;
+
+  function handleKeyDown(event: React.KeyboardEvent<HTMLInputElement>) {
+    if (!showSuggestions) return;
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      // -1 is the input itself, so the highlight wraps through it
+      const positions = suggestions.length + 1;
+      setActiveIndex(
+        (index) => ((index + 1 + step + positions) % positions) - 1
+      );
+    } else if (event.key === 'Enter' && activeIndex >= 0) {
+      event.preventDefault();
+      window.location.assign(suggestions[activeIndex].url);
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+    }
+  }
+
+  return (
+    <form
+      action="/search"
+      method="get"
+      role="search"
+      className="flex flex-col gap-2 sm:flex-row"
+    >
+      <div className="relative flex-1">
+        <Search className="absolute w-5 h-5 text-gray-400 -translate-y-1/2 left-3 top-1/2" />
+        <input
+          type="search"
+          name="q"
+          value={text}
+          onChange={(event) => {
+            setText(event.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search, e.g. library or financial aid"
+          aria-label="Search the site index"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={listId}
+          aria-activedescendant={
+            activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined
+          }
+          autoComplete="off"
+          autoFocus={!query}
+          className="w-full py-3 pl-10 pr-3 text-lg border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-600"
+        />
+        <ul
+          id={listId}
+          role="listbox"
+          hidden={!showSuggestions}
+          className="absolute z-20 w-full mt-1 overflow-hidden bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.id}:${suggestion.title}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so the click lands
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => window.location.assign(suggestion.url)}
+              className={cn(
+                'px-4 py-2 cursor-pointer',
+                index === activeIndex ? 'bg-indigo-100' : 'hover:bg-gray-100'
+              )}
+            >
+              <span className="font-medium text-gray-900">
+                {suggestion.title}
+              </span>
+              {suggestion.aliasOf && (
+                <span className="text-gray-600">
+                  {' '}
+                  — see {suggestion.aliasOf}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <select
+        name="campus"
+        value={campus}
+        onChange={(event) => setCampus(event.target.value)}
+        aria-label="Campus"
+        className="px-3 py-3 border border-gray-300 rounded-md"
+      >
+        <option value="">All campuses</option>
+        {campuses.map((option) => (
+          <option key={option.slug} value={option.slug}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+      <button
+        type="submit"
+        className="px-6 py-3 font-semibold text-white bg-indigo-800 rounded-md hover:bg-indigo-700"
+      >
+        Search
+      </button>
+    </form>
+  );
+};
+
+export default PublicSearch;
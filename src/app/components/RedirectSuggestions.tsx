@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { acceptRedirectSuggestionsAction } from '../_actions';
+
+type Suggestion = {
+  itemId: string;
+  title: string;
+  campus: string;
+  oldUrl: string;
+  newUrl: string;
+};
+
+interface RedirectSuggestionsProps {
+  suggestions: Suggestion[];
+  editableCampuses: string[];
+}
+
+const RedirectSuggestions: React.FC<RedirectSuggestionsProps> = ({
+  suggestions,
+  editableCampuses
+}) => {
+  const router = useRouter();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const editable = suggestions.filter((suggestion) =>
+    editableCampuses.includes(suggestion.campus)
+  );
+
+  function toggle(itemId: string) {
+    setSelected((current) =>
+      current.includes(itemId)
+        ? current.filter((id) => id !== itemId)
+        : [...current, itemId]
+    );
+  }
+
+  async function accept(itemIds: string[]) {
+    setLoading(true);
+    setMessage('');
+    try {
+      const result = await acceptRedirectSuggestionsAction(itemIds);
+      setMessage(
+        result.error ?? `Updated ${result.updatedCount} index item URLs.`
+      );
+      setSelected([]);
+      router.refresh();
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (suggestions.length === 0) {
+    return <p className="text-sm text-gray-600">No suggested fixes.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <Button
+          type="button"
+          onClick={() => accept(selected)}
+          disabled={loading || selected.length === 0}
+        >
+          {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Accept {selected.length} selected
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() =>
+            setSelected(
+              selected.length === editable.length
+                ? []
+                : editable.map((suggestion) => suggestion.itemId)
+            )
+          }
+        >
+          {selected.length === editable.length ? 'Select none' : 'Select all'}
+        </Button>
+        {message && <p className="text-sm text-gray-700">{message}</p>}
+      </div>
+      <div className="overflow-auto bg-white border rounded-md">
+        <table className="min-w-full divide-y divide-gray-300">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="w-8 py-3.5 pl-4" />
+              <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                Title
+              </th>
+              <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                Old URL
+              </th>
+              <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                New URL
+              </th>
+              <th className="py-3.5 px-3 text-left text-sm font-semibold text-gray-900">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {suggestions.map((suggestion) => {
+              const canEdit = editableCampuses.includes(suggestion.campus);
+              return (
+                <tr
+                  key={suggestion.itemId}
+                  className="border-b-2 border-b-slate-100"
+                >
+                  <td className="py-3 pl-4">
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${suggestion.title}`}
+                      checked={selected.includes(suggestion.itemId)}
+                      onChange={() => toggle(suggestion.itemId)}
+                      disabled={!canEdit}
+                      className="w-4 h-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-600"
+                    />
+                  </td>
+                  <td className="px-3 py-3 text-sm font-medium text-gray-900">
+                    {suggestion.title}
+                    <div className="text-xs text-gray-500">
+                      {suggestion.campus}
+                    </div>
+                  </td>
+                  <td className="px-3 py-3 text-xs text-red-700 break-all">
+                    {suggestion.oldUrl}
+                  </td>
+                  <td className="px-3 py-3 text-xs text-green-800 break-all">
+                    {suggestion.newUrl}
+                  </td>
+                  <td className="px-3 py-3">
+                    {canEdit && (
+                      <button
+                        className="px-3 py-1 text-sm font-semibold text-indigo-900 bg-indigo-200 rounded shadow-sm hover:bg-indigo-300 disabled:opacity-50"
+                        onClick={() => accept([suggestion.itemId])}
+                        disabled={loading}
+                      >
+                        Accept{' '}
+                        <span className="sr-only">{suggestion.title}</span>
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RedirectSuggestions;
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { revertIndexItemAction } from '../_actions';
+import { Loader2 } from 'lucide-react';
+
+export interface RevertButtonProps {
+  id: string;
+  revisionId: string;
+}
+
+export default function RevertButton({ id, revisionId }: RevertButtonProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  const handleRevert = async () => {
+    const confirmRevert = window.confirm(
+      'Revert this item to the selected version?'
+    );
+    if (confirmRevert) {
+      setLoading(true);
+      setError('');
+      try {
+        const { error: revertError } = await revertIndexItemAction(
+          id,
+          revisionId
+        );
+        if (revertError) {
+          console.error(`Failed to revert item with ID: ${id}`);
+          setError(revertError);
+          return;
+        }
+        router.refresh();
+      } finally {
+        setLoading(false);
+      }
+    }
+  };
+
+  return (
+    <>
+      <button
+        className="px-3 py-1 text-sm font-semibold text-indigo-900 bg-indigo-200 rounded shadow-sm hover:bg-indigo-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300 disabled:opacity-50"
+        onClick={handleRevert}
+        disabled={loading}
+      >
+        {loading ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          'Revert to this version'
+        )}
+      </button>
+      {error && <p className="mt-1 text-sm text-red-700">{error}</p>}
+    </>
+  );
+}
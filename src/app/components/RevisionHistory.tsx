@@ -0,0 +1,89 @@
+import { formatSnapshotValue, getIndexItemRevisions } from '@/lib/audit';
+import RevertButton from './RevertButton';
+
+interface RevisionHistoryProps {
+  itemId: string;
+}
+
+const RevisionHistory = async ({ itemId }: RevisionHistoryProps) => {
+  const { revisions, error } = await getIndexItemRevisions(itemId);
+  if (error) {
+    return <p className="p-5 text-red-700">Unable to load version history.</p>;
+  }
+
+  return (
+    <section className="max-w-3xl p-5">
+      <h2 className="mb-3 text-xl font-bold">Version History</h2>
+      {revisions.length === 0 && (
+        <p className="text-sm text-gray-600">No earlier versions recorded.</p>
+      )}
+      <ol className="space-y-3">
+        {revisions.map((revision, index) => (
+          <li
+            key={revision.id}
+            className="p-4 bg-white border rounded-md shadow-sm"
+          >
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-gray-600">
+                {revision.createdAt.toLocaleString()} ·{' '}
+                {revision.userEmail ?? 'Unknown'} ·{' '}
+                {revision.action.toLowerCase()}
+              </div>
+              {index === 0 ? (
+                <span className="text-sm font-semibold text-gray-500">
+                  Current version
+                </span>
+              ) : (
+                <RevertButton id={itemId} revisionId={revision.id} />
+              )}
+            </div>
+            <dl className="grid grid-cols-[6rem_1fr] gap-x-3 mt-2 text-sm">
+              <dt className="font-medium text-gray-900">Title</dt>
+              <dd>{revision.snapshot.title}</dd>
+              <dt className="font-medium text-gray-900">URL</dt>
+              <dd className="break-all">{revision.snapshot.url}</dd>
+              <dt className="font-medium text-gray-900">Letter</dt>
+              <dd>{revision.snapshot.letter}</dd>
+              {revision.snapshot.extraLetters?.length > 0 && (
+                <>
+                  <dt className="font-medium text-gray-900">See also</dt>
+                  <dd>{formatSnapshotValue(revision.snapshot.extraLetters)}</dd>
+                </>
+              )}
+              {revision.snapshot.aliases?.length > 0 && (
+                <>
+                  <dt className="font-medium text-gray-900">Aliases</dt>
+                  <dd>{formatSnapshotValue(revision.snapshot.aliases)}</dd>
+                </>
+              )}
+              {revision.snapshot.keywords?.length > 0 && (
+                <>
+                  <dt className="font-medium text-gray-900">Keywords</dt>
+                  <dd>{formatSnapshotValue(revision.snapshot.keywords)}</dd>
+                </>
+              )}
+              <dt className="font-medium text-gray-900">Campus</dt>
+              <dd>{revision.snapshot.campus}</dd>
+            </dl>
+            {revision.changes.length > 0 && (
+              <ul className="mt-2 text-sm">
+                {revision.changes.map((change) => (
+                  <li key={change.field}>
+                    <span className="font-medium">{change.field}:</span>{' '}
+                    <del className="text-red-700 bg-red-50">{change.from}</del>{' '}
+                    →{' '}
+                    <ins className="text-green-800 bg-green-50">
+                      {change.to}
+                    </ins>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+};
+
+export default RevisionHistory;
@@ -1,33 +1,54 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { searchIndexItems } from '@/lib/indexItems';
+import { searchIndexItems } from '../_actions';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
-import { Loader2, MinusCircle, Search } from 'lucide-react';
+import { Download, Loader2, MinusCircle, Search } from 'lucide-react';
 import { FixedSizeList as List } from 'react-window';
 import TableHeader from './TableHeader';
 import TableRow from './TableRow';
+import { cn } from '@/lib/utils';
+import type { CampusOption } from '@/lib/campuses';
 
-const campusInfo = [
-  { id: 'collegeOfSanMateo', value: 'College of San Mateo' },
-  { id: 'canadaCollege', value: 'Cañada College' },
-  { id: 'districtOffice', value: 'District Office' },
-  { id: 'skylineCollege', value: 'Skyline College' }
-];
+const exportFormats = ['csv', 'json', 'xlsx'];
 
 type SearchResultType = {
   id: string;
   title: string;
   letter: string;
   campus: string;
+  sharedCampuses?: string[];
+  districtWide?: boolean;
   url: string;
+  // Set on ranked search results
+  score?: number;
+  highlight?: string;
 };
 
-const SearchResults = () => {
+type SearchResultsProps = {
+  // The active campuses, offered as filters
+  campuses: CampusOption[];
+  // Campuses the signed-in user is assigned to; highlighted and used as the default filter
+  userCampuses: string[];
+  // Campuses whose items the signed-in user may edit or delete
+  editableCampuses: string[];
+};
+
+const SearchResults = ({
+  campuses,
+  userCampuses,
+  editableCampuses
+}: SearchResultsProps) => {
+  const defaultCampus = userCampuses[0] ?? '';
   const [searchResults, setSearchResults] = useState<SearchResultType[]>([]);
   const [sortConfig, setSortConfig] = useState({ key: 'title', direction: 'asc' });
-  const [selectedCampus, setSelectedCampus] = useState('');
+  const [selectedCampus, setSelectedCampus] = useState(defaultCampus);
+  // The filter behind the rows currently shown, used for exports
+  const [appliedFilter, setAppliedFilter] = useState({
+    query: '',
+    campus: defaultCampus
+  });
   const [loading, setLoading] = useState(true);
   const [listHeight, setListHeight] = useState(500); // Default height for SSR
 
@@ -51,9 +72,8 @@ const SearchResults = () => {
   async function fetchAllItems() {
     setLoading(true);
     try {
-      const response = await searchIndexItems('');
-      const results = response.results;
-      setSearchResults(sortArray(results ?? []));
+      const results = await searchIndexItems('', defaultCampus);
+      setSearchResults(sortArray(results));
     } catch (error) {
       console.error('Failed to fetch all items:', error);
     } finally {
@@ -67,11 +87,12 @@ const SearchResults = () => {
     const query = (data.get('query') as string) || '';
     const campusParam = selectedCampus || '';
 
+    setAppliedFilter({ query, campus: campusParam });
     setLoading(true);
     try {
-      const response = await searchIndexItems(query, campusParam);
-      const results = response.results;
-      setSearchResults(sortArray(results ?? []));
+      const results = await searchIndexItems(query, campusParam);
+      // Searches keep their relevance order until a column is sorted
+      setSearchResults(query.trim() ? results : sortArray(results));
     } catch (error) {
       console.error('Failed to search index items:', error);
     } finally {
@@ -124,9 +145,17 @@ const SearchResults = () => {
   const rowRenderer = useCallback(
     ({ index, style }) => {
       const item = searchResults[index];
-      return <TableRow key={item.id} item={item} style={style} />;
+      return (
+        <TableRow
+          key={item.id}
+          item={item}
+          style={style}
+          canEdit={editableCampuses.includes(item.campus)}
+          highlighted={userCampuses.includes(item.campus)}
+        />
+      );
     },
-    [searchResults]
+    [searchResults, editableCampuses, userCampuses]
   );
 
   return (
@@ -153,28 +182,51 @@ const SearchResults = () => {
 
           <fieldset className="max-w-3xl mt-4 shadow-sm ">
             <div className="grid grid-cols-4 px-4 py-2 bg-white border border-gray-300 rounded-sm">
-              {campusInfo.map((campus) => (
-                <div key={campus.id} className="flex items-center">
+              {campuses.map((campus) => (
+                <div key={campus.slug} className="flex items-center">
                   <input
-                    id={campus.id}
+                    id={`campus-${campus.slug}`}
                     name="campus"
-                    value={campus.value}
+                    value={campus.name}
                     type="radio"
-                    checked={selectedCampus === campus.value}
-                    onChange={() => setSelectedCampus(campus.value)}
+                    checked={selectedCampus === campus.name}
+                    onChange={() => setSelectedCampus(campus.name)}
                     className="w-4 h-4 text-indigo-600 border-gray-300 focus:ring-indigo-600"
                   />
                   <label
-                    htmlFor={campus.id}
-                    className="block ml-3 text-sm font-medium leading-6 text-gray-900"
+                    htmlFor={`campus-${campus.slug}`}
+                    className={cn(
+                      'block ml-3 text-sm font-medium leading-6 text-gray-900',
+                      userCampuses.includes(campus.name) &&
+                        'font-bold text-indigo-800'
+                    )}
                   >
-                    {campus.value}
+                    {campus.name}
                   </label>
                 </div>
               ))}
             </div>
           </fieldset>
-          <div className="flex justify-end max-w-3xl mt-2 text-gray-600">
+          <div className="flex items-center justify-between max-w-3xl mt-2 text-gray-600">
+            <div className="flex items-center gap-2 text-sm">
+              <Download aria-hidden="true" className="w-4 h-4" />
+              Export{' '}
+              {appliedFilter.query || appliedFilter.campus ? 'results' : 'all'}:
+              {exportFormats.map((format) => (
+                <a
+                  key={format}
+                  href={`/api/indexItems/export?${new URLSearchParams({
+                    format,
+                    search: appliedFilter.query,
+                    campus: appliedFilter.campus
+                  })}`}
+                  className="font-semibold text-indigo-700 hover:underline"
+                  download
+                >
+                  {format.toUpperCase()}
+                </a>
+              ))}
+            </div>
             <Button
               variant="ghost"
               onClick={() => {
@@ -0,0 +1,59 @@
+'use client';
+
+import { INDEX_LETTERS } from '@/lib/letters';
+
+interface SeeAlsoLettersProps {
+  // Form field name, for plain form posts
+  name?: string;
+  value?: string[];
+  defaultValue?: string[];
+  onChange?: (letters: string[]) => void;
+  // The item's own letter, which cannot also be a "see also" letter
+  primaryLetter?: string;
+}
+
+/**
+ * Checkboxes for the extra letters an index item is listed under.
+ */
+export default function SeeAlsoLetters({
+  name,
+  value,
+  defaultValue = [],
+  onChange,
+  primaryLetter
+}: SeeAlsoLettersProps) {
+  function toggle(letter: string, checked: boolean) {
+    const current = value ?? [];
+    onChange?.(
+      checked
+        ? INDEX_LETTERS.filter((l) => l === letter || current.includes(l))
+        : current.filter((l) => l !== letter)
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {INDEX_LETTERS.map((letter) => (
+        <label key={letter} className="cursor-pointer">
+          <input
+            type="checkbox"
+            name={name}
+            value={letter}
+            className="sr-only peer"
+            disabled={letter === primaryLetter}
+            {...(value
+              ? {
+                  checked: value.includes(letter),
+                  onChange: (event: React.ChangeEvent<HTMLInputElement>) =>
+                    toggle(letter, event.target.checked)
+                }
+              : { defaultChecked: defaultValue.includes(letter) })}
+          />
+          <span className="flex items-center justify-center w-8 h-8 text-sm font-medium text-gray-900 border rounded peer-checked:bg-indigo-600 peer-checked:text-white peer-disabled:opacity-30 peer-focus-visible:ring-2 peer-focus-visible:ring-indigo-600">
+            {letter}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
@@ -3,8 +3,10 @@
 import { useFormStatus } from 'react-dom';
 import { Loader2 } from 'lucide-react';
 
-export default function SubmitButton({ children, pendingText = 'Saving...' }: { children: React.ReactNode; pendingText?: string }) {
-  const { pending } = useFormStatus();
+// Forms that submit from script pass `pending`, since useFormStatus only sees form actions
+export default function SubmitButton({ children, pendingText = 'Saving...', pending: submitting }: { children: React.ReactNode; pendingText?: string; pending?: boolean }) {
+  const { pending: formPending } = useFormStatus();
+  const pending = submitting ?? formPending;
 
   return (
     <button
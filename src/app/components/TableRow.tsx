@@ -1,6 +1,7 @@
 import React from 'react';
 import Link from 'next/link';
 import DeleteButton from './DeleteButton';
+import { cn } from '@/lib/utils';
 
 type TableRowProps = {
   item: {
@@ -8,15 +9,30 @@ type TableRowProps = {
     title: string;
     letter: string;
     campus: string;
+    sharedCampuses?: string[];
+    districtWide?: boolean;
     url: string;
+    score?: number;
+    // The title with matched search terms in <mark>, already HTML-escaped
+    highlight?: string;
   };
   style: React.CSSProperties;
+  canEdit: boolean;
+  highlighted: boolean;
 };
 
-const TableRow: React.FC<TableRowProps> = ({ item, style }) => (
+const TableRow: React.FC<TableRowProps> = ({
+  item,
+  style,
+  canEdit,
+  highlighted
+}) => (
   <div
     style={style}
-    className="flex items-center border-b-2 group hover:bg-gray-100 border-b-slate-100"
+    className={cn(
+      'flex items-center border-b-2 group hover:bg-gray-100 border-b-slate-100',
+      highlighted && 'bg-indigo-50'
+    )}
   >
     <div className="w-1/12 px-6 py-3 whitespace-nowrap">
       <div className="text-sm font-medium text-gray-900" title={item.id}>{item.id.substring(0, 8)}</div>
@@ -25,10 +41,16 @@ const TableRow: React.FC<TableRowProps> = ({ item, style }) => (
       <div className="flex items-start text-sm font-medium text-gray-900">
         <Link
           href={`/admin/edit/${item.id}`}
-          className="hover:underline hover:text-indigo-900"
-        >
-          {item.title}
-        </Link>
+          className="hover:underline hover:text-indigo-900 [&_mark]:bg-yellow-200"
+          title={
+            item.score !== undefined
+              ? `Relevance: ${item.score.toFixed(2)}`
+              : undefined
+          }
+          {...(item.highlight
+            ? { dangerouslySetInnerHTML: { __html: item.highlight } }
+            : { children: item.title })}
+        />
         <a
           href={item.url}
           aria-label={`View ${item.title} on Production Site`}
@@ -61,19 +83,31 @@ const TableRow: React.FC<TableRowProps> = ({ item, style }) => (
       <div className="text-sm font-medium text-center text-gray-900">
         {item.campus}
       </div>
+      {(item.districtWide || item.sharedCampuses?.length > 0) && (
+        <div
+          className="text-xs text-center text-gray-500"
+          title={item.sharedCampuses?.join(', ')}
+        >
+          {item.districtWide
+            ? 'Shared district-wide'
+            : `Shared with ${item.sharedCampuses.length} more`}
+        </div>
+      )}
     </div>
     <div className="w-3/12 px-3 py-3 whitespace-nowrap">
-      <div className="flex items-center space-x-2">
-        <Link
-          className="px-3 py-1 text-sm font-semibold text-indigo-900 transition-opacity duration-100 bg-indigo-200 rounded shadow-sm opacity-0 group-hover:opacity-100 hover:bg-indigo-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300"
-          href={`/admin/edit/${item.id}`}
-        >
-          Edit Item ✏️
-        </Link>
-        <div className="transition-opacity duration-100 opacity-0 group-hover:opacity-100">
-          <DeleteButton id={item.id} itemName={item.title} />
+      {canEdit && (
+        <div className="flex items-center space-x-2">
+          <Link
+            className="px-3 py-1 text-sm font-semibold text-indigo-900 transition-opacity duration-100 bg-indigo-200 rounded shadow-sm opacity-0 group-hover:opacity-100 hover:bg-indigo-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300"
+            href={`/admin/edit/${item.id}`}
+          >
+            Edit Item ✏️
+          </Link>
+          <div className="transition-opacity duration-100 opacity-0 group-hover:opacity-100">
+            <DeleteButton id={item.id} itemName={item.title} />
+          </div>
         </div>
-      </div>
+      )}
     </div>
   </div>
 );
@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import DuplicateWarning from './DuplicateWarning';
+
+interface TitleUrlFieldsProps {
+  defaultTitle: string;
+  defaultUrl: string;
+  campus: string;
+  // The item being edited, which is not a duplicate of itself
+  excludeId: string;
+  inputClassName: string;
+}
+
+/**
+ * The title and URL inputs of the edit page's plain form post, with a
+ * duplicate warning that follows what is typed.
+ */
+export default function TitleUrlFields({
+  defaultTitle,
+  defaultUrl,
+  campus,
+  excludeId,
+  inputClassName
+}: TitleUrlFieldsProps) {
+  const [title, setTitle] = useState(defaultTitle);
+  const [url, setUrl] = useState(defaultUrl);
+
+  return (
+    <>
+      <label
+        htmlFor="title"
+        className="block text-sm font-medium leading-6 text-gray-900"
+      >
+        Title
+      </label>
+      <input
+        id="title"
+        name="title"
+        type="text"
+        className={inputClassName}
+        value={title}
+        onChange={(event) => setTitle(event.target.value)}
+      />
+      <label
+        className="block text-sm font-medium leading-6 text-gray-900"
+        htmlFor="url"
+      >
+        URL
+      </label>
+      <input
+        id="url"
+        name="url"
+        type="text"
+        className={inputClassName}
+        value={url}
+        onChange={(event) => setUrl(event.target.value)}
+      />
+      <DuplicateWarning
+        title={title}
+        url={url}
+        campus={campus}
+        excludeId={excludeId}
+      />
+    </>
+  );
+}
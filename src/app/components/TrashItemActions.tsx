@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { purgeIndexItemAction, restoreIndexItemAction } from '../_actions';
+import { Loader2 } from 'lucide-react';
+
+export interface TrashItemActionsProps {
+  id: string;
+  itemName: string;
+  canPurge: boolean;
+}
+
+export default function TrashItemActions({
+  id,
+  itemName,
+  canPurge
+}: TrashItemActionsProps) {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  const handleRestore = async () => {
+    setLoading(true);
+    setError('');
+    const { error: restoreError } = await restoreIndexItemAction(id);
+    if (restoreError) {
+      setError(restoreError);
+      setLoading(false);
+      return;
+    }
+    router.refresh();
+  };
+
+  const handlePurge = async () => {
+    const confirmPurge = window.confirm(
+      `Permanently delete ${itemName}? This cannot be undone.`
+    );
+    if (confirmPurge) {
+      setLoading(true);
+      setError('');
+      const { error: purgeError } = await purgeIndexItemAction(id);
+      if (purgeError) {
+        setError(purgeError);
+        setLoading(false);
+        return;
+      }
+      router.refresh();
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="w-4 h-4 animate-spin" />;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        className="px-3 py-1 text-sm font-semibold text-indigo-900 bg-indigo-200 rounded shadow-sm hover:bg-indigo-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-300"
+        onClick={handleRestore}
+      >
+        Restore <span className="sr-only">{itemName}</span>
+      </button>
+      {canPurge && (
+        <button
+          className="px-3 py-1 text-sm font-semibold text-red-900 bg-red-200 rounded shadow-sm hover:bg-red-300 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-red-300"
+          onClick={handlePurge}
+        >
+          Delete Forever <span className="sr-only">{itemName}</span>
+        </button>
+      )}
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+}
@@ -1,44 +1,42 @@
-import { prisma } from '@/lib/prisma';
+import { notFound, redirect } from 'next/navigation';
+import PublicIndex from '@/app/components/PublicIndex';
+import { deriveLetter, normalizeLetter } from '@/lib/letters';
+import { getPublicIndex } from '@/lib/publicIndex';
 
 export const revalidate = 3600; // Revalidate every hour (ISR)
 
-export default async function Page({ params }: { params: Promise<{ letter: string }> }) {
+interface LetterPageProps {
+  params: Promise<{ letter: string }>;
+}
+
+export async function generateMetadata({ params }: LetterPageProps) {
   const { letter } = await params;
-  if (letter.length !== 1) {
-    return <h1 className="text-center text-red-700 text-8xl">Invalid Entry</h1>;
-  }
-  const indexItems = await prisma.indexitem.findMany({
-    where: { letter: letter },
-    select: {
-      id: true,
-      title: true,
-      url: true,
-      letter: true,
-      campus: true
-    },
-    orderBy: { title: 'asc' }
-  });
-  if (indexItems.length === 0) {
-    return (
-      <h1 className="mt-12 text-xl text-center text-red-700">No Items Found</h1>
-    );
+  const indexLetter = normalizeLetter(decodeURIComponent(letter));
+  return {
+    title: indexLetter ? `${indexLetter} | Site Index` : 'Site Index'
+  };
+}
+
+export default async function LetterPage({ params }: LetterPageProps) {
+  const { letter: letterParam } = await params;
+  const decoded = decodeURIComponent(letterParam);
+  const letter = normalizeLetter(decoded);
+  if (letter !== decoded) {
+    // "a", "ñ" and "/letter/financial-aid" all land on their letter's page
+    if (decoded.toLowerCase() === 'all') redirect('/letter');
+    const canonical = letter || deriveLetter(decoded);
+    if (!canonical) notFound();
+    redirect(`/letter/${canonical}`);
   }
+
+  const { groups, campuses, counts, error } = await getPublicIndex();
+  if (error) throw error;
   return (
-    <div className="container mx-auto">
-      <h1 className="mt-16 text-xl text-center">
-        Results for: {letter.toUpperCase()}
-      </h1>
-      <ul>
-        {indexItems.map((indexItem) => (
-          <li key={indexItem.id} className="flex flex-col w-64 gap-2">
-            <p>
-              <a className="text-indigo-600" href={indexItem.url}>
-                {indexItem.title}
-              </a>
-            </p>
-          </li>
-        ))}
-      </ul>
-    </div>
+    <PublicIndex
+      campuses={campuses}
+      groups={groups.filter((group) => group.letter === letter)}
+      counts={counts}
+      letter={letter}
+    />
   );
 }
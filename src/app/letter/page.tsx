@@ -0,0 +1,14 @@
+import PublicIndex from '@/app/components/PublicIndex';
+import { getPublicIndex } from '@/lib/publicIndex';
+
+export const revalidate = 3600; // Revalidate every hour (ISR)
+
+export const metadata = {
+  title: 'A–Z | Site Index'
+};
+
+export default async function AllLettersPage() {
+  const { groups, campuses, counts, error } = await getPublicIndex();
+  if (error) throw error;
+  return <PublicIndex campuses={campuses} groups={groups} counts={counts} />;
+}
@@ -1,9 +1,10 @@
+import Link from 'next/link';
 import OneLoginSignInButton from './components/SignInButton';
 import { Card, CardContent, CardFooter, CardTitle } from './components/ui/card';
 
 export default async function Home() {
   return (
-    <div className="flex items-center justify-center h-[calc(100vh-72px)] bg-slate-700">
+    <div className="flex flex-col gap-6 items-center justify-center h-[calc(100vh-72px)] bg-slate-700">
       <Card className="text-center pt-8 bg-slate-50">
         <CardTitle className="py-8">Site Index Admin</CardTitle>
         <CardContent className="max-w-md">
@@ -13,6 +14,12 @@ export default async function Home() {
           <OneLoginSignInButton />
         </CardFooter>
       </Card>
+      <Link
+        href="/search"
+        className="text-white underline hover:text-slate-200"
+      >
+        Looking for a page? Search the site index
+      </Link>
     </div>
   );
 }
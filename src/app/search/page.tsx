@@ -0,0 +1,75 @@
+import Link from 'next/link';
+import PublicSearch from '@/app/components/PublicSearch';
+import { getCampuses, matchCampus } from '@/lib/campuses';
+import { searchIndexItems } from '@/lib/indexItems';
+
+export const metadata = {
+  title: 'Search | Site Index'
+};
+
+interface SearchPageProps {
+  searchParams: Promise<{ q?: string; campus?: string }>;
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const { q = '', campus: campusParam = '' } = await searchParams;
+  const query = q.trim();
+  const { campuses, error } = await getCampuses();
+  if (error) throw error;
+  const campus = campusParam ? matchCampus(campuses, campusParam) : undefined;
+
+  // A blank query would list every item, so only search once something is typed
+  const { results, error: searchError } = query
+    ? await searchIndexItems(query, campus?.name)
+    : { results: [], error: undefined };
+  if (searchError) throw searchError;
+
+  return (
+    <div className="container max-w-3xl px-4 py-8 mx-auto">
+      <h1 className="mb-6 text-3xl font-bold text-gray-900">
+        Search the Site Index
+      </h1>
+      <PublicSearch
+        campuses={campuses.map(({ slug, name }) => ({ slug, name }))}
+        query={query}
+        campusSlug={campus?.slug ?? ''}
+      />
+
+      {query ? (
+        <section aria-live="polite" className="mt-8">
+          <p className="text-gray-600">
+            {results.length === 0 ? 'No' : results.length}{' '}
+            {results.length === 1 ? 'result' : 'results'} for “{query}”
+            {campus ? ` at ${campus.name}` : ''}.
+          </p>
+          <ul className="mt-4 space-y-4">
+            {results.map((result) => (
+              <li key={result.id}>
+                <a
+                  href={result.url}
+                  className="text-lg font-medium text-indigo-700 hover:underline [&_mark]:bg-yellow-200"
+                  // Highlights are HTML-escaped apart from their <mark> tags
+                  {...('highlight' in result
+                    ? { dangerouslySetInnerHTML: { __html: result.highlight } }
+                    : { children: result.title })}
+                />
+                <span className="block text-sm text-gray-500 break-all">
+                  {result.districtWide ? 'All campuses' : result.campus} ·{' '}
+                  {result.url}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ) : (
+        <p className="mt-6 text-gray-600">
+          Looking for a department or service? Start typing, or{' '}
+          <Link href="/letter" className="text-indigo-700 hover:underline">
+            browse the A–Z index
+          </Link>
+          .
+        </p>
+      )}
+    </div>
+  );
+}
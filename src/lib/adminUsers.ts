@@ -0,0 +1,66 @@
+import type { Role } from '@prisma/client';
+import prisma from './prisma';
+
+/**
+ * Retrieves every user that has been assigned a role.
+ * @returns An object containing the users ordered by email, or an error.
+ */
+export async function getAdminUsers() {
+  try {
+    const adminUsers = await prisma.adminuser.findMany({
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        campuses: true,
+        updatedAt: true
+      },
+      orderBy: { email: 'asc' }
+    });
+    return { adminUsers };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Creates or updates the role and campuses for an email address.
+ * @param email - The OneLogin email of the user.
+ * @param role - The role to grant.
+ * @param campuses - The campuses the user may edit (ignored for district admins).
+ * @param name - An optional display name.
+ * @returns An object containing the saved user or an error.
+ */
+export async function saveAdminUser(
+  email: string,
+  role: Role,
+  campuses: string[],
+  name?: string
+) {
+  try {
+    const normalized = email.trim().toLowerCase();
+    const adminUser = await prisma.adminuser.upsert({
+      where: { email: normalized },
+      create: { email: normalized, role, campuses, name: name || null },
+      update: { role, campuses, ...(name ? { name } : {}) }
+    });
+    return { adminUser };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Removes a user's role assignment, returning them to read-only access.
+ * @param id - The ID of the adminuser row.
+ * @returns An object containing the removed user or an error.
+ */
+export async function deleteAdminUser(id: string) {
+  try {
+    const adminUser = await prisma.adminuser.delete({ where: { id } });
+    return { adminUser };
+  } catch (error) {
+    return { error };
+  }
+}
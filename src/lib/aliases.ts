@@ -0,0 +1,86 @@
+import { deriveLetter } from './letters';
+
+/**
+ * An index item as listed on an A-Z page. Alias entries point at the item
+ * they stand in for through `aliasOf`.
+ */
+export interface IndexEntry {
+  id: string;
+  title: string;
+  url: string;
+  letter: string;
+  campus: string;
+  sharedCampuses?: string[];
+  districtWide?: boolean;
+  aliasOf?: string;
+}
+
+interface AliasedItem {
+  id: string;
+  title: string;
+  url: string;
+  letter: string;
+  campus: string;
+  sharedCampuses?: string[];
+  districtWide?: boolean;
+  aliases?: string[];
+}
+
+/**
+ * Cleans up a list of aliases or keywords: trimmed, single-spaced, without
+ * blanks or case-insensitive repeats.
+ * @param terms - The terms to clean up.
+ */
+export function normalizeTerms(terms: string[]) {
+  const seen = new Set<string>();
+  return terms
+    .map((term) => term.trim().replace(/\s+/g, ' '))
+    .filter((term) => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Builds a "Transcripts — see Admissions & Records" entry for each alias.
+ * @param items - The items whose aliases to list.
+ * @param letter - Only include aliases filed under this letter.
+ */
+export function getAliasEntries(items: AliasedItem[], letter?: string) {
+  const entries: IndexEntry[] = [];
+  for (const item of items) {
+    for (const alias of item.aliases ?? []) {
+      const aliasLetter = deriveLetter(alias);
+      if (letter && aliasLetter !== letter) continue;
+      entries.push({
+        id: item.id,
+        title: alias,
+        url: item.url,
+        letter: aliasLetter,
+        campus: item.campus,
+        sharedCampuses: item.sharedCampuses,
+        districtWide: item.districtWide,
+        aliasOf: item.title
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Adds alias entries to a list of items and sorts everything by title.
+ * @param items - The items to list; their own entries are kept as they are.
+ * @param aliasItems - The items whose aliases to add, usually the same list.
+ * @param letter - Only include aliases filed under this letter.
+ */
+export function withAliasEntries<T extends AliasedItem>(
+  items: T[],
+  aliasItems: AliasedItem[] = items,
+  letter?: string
+): (T | IndexEntry)[] {
+  return [...items, ...getAliasEntries(aliasItems, letter)].sort((a, b) =>
+    a.title.localeCompare(b.title, 'en', { sensitivity: 'base' })
+  );
+}
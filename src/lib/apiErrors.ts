@@ -0,0 +1,200 @@
+import { Prisma } from '@prisma/client';
+import { NextResponse } from 'next/server';
+import type { ZodError } from 'zod';
+
+/**
+ * Machine-readable error codes returned by the JSON API.
+ */
+export type ApiErrorCode =
+  | 'invalid_json'
+  | 'invalid_parameter'
+  | 'validation_failed'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'unprocessable'
+  | 'rate_limited'
+  | 'blocked'
+  | 'internal_error';
+
+/**
+ * A problem with one field of the request, e.g. `{ field: "url", code:
+ * "invalid_string", message: "URL must be valid" }`.
+ */
+export interface ApiFieldError {
+  field: string;
+  code: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  fields?: ApiFieldError[];
+}
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: 'validation_failed',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  422: 'unprocessable',
+  429: 'rate_limited',
+  500: 'internal_error'
+};
+
+/**
+ * Builds an error response with the shared `{ error: { code, message, fields } }` body.
+ * @param status - The HTTP status.
+ * @param message - A human-readable description.
+ * @param code - The error code; defaults to the usual one for the status.
+ * @param fields - Per-field problems, when the request body was at fault.
+ * @param headers - Extra response headers, e.g. for CORS.
+ */
+export function apiError(
+  status: number,
+  message: string,
+  code: ApiErrorCode = STATUS_CODES[status] ?? 'internal_error',
+  fields?: ApiFieldError[],
+  headers?: HeadersInit
+) {
+  const error: ApiErrorBody = { code, message };
+  if (fields?.length) error.fields = fields;
+  return NextResponse.json({ error }, { status, headers });
+}
+
+/**
+ * Lists the problems zod found, one entry per field.
+ * @param error - The failed parse.
+ * @param prefix - Path to prepend, e.g. `operations.2` inside a batch.
+ */
+export function toFieldErrors(error: ZodError, prefix?: string) {
+  return error.issues.map((issue): ApiFieldError => ({
+    field: [prefix, ...issue.path]
+      .filter((part) => part !== undefined)
+      .join('.'),
+    code: issue.code,
+    message: issue.message
+  }));
+}
+
+/**
+ * A 400 response for a body that failed schema validation.
+ * @param error - The failed parse.
+ */
+export function validationError(error: ZodError) {
+  return apiError(
+    400,
+    'The request body is invalid',
+    'validation_failed',
+    toFieldErrors(error)
+  );
+}
+
+/**
+ * Reads the JSON body, or returns `undefined` when it isn't valid JSON.
+ * @param req - The incoming request.
+ */
+export async function readJson(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A 400 response for a body that isn't JSON at all.
+ */
+export function invalidJsonError() {
+  return apiError(400, 'The request body must be valid JSON', 'invalid_json');
+}
+
+/**
+ * Checks an item's campus and shared campuses against the known campuses.
+ * The schema only requires non-empty names, so a well-formed body can still
+ * name a campus that doesn't exist; callers answer that with a 422.
+ * @param values - The campus fields from the request.
+ * @param knownCampuses - The campus names from getCampusNames().
+ * @param prefix - Where the item sits in the body, e.g. `operations.0.data.`.
+ * @returns A field error for each unknown campus.
+ */
+export function checkCampuses(
+  values: { campus?: string; sharedCampuses?: string[] },
+  knownCampuses: string[],
+  prefix = ''
+) {
+  const errors: ApiFieldError[] = [];
+  const unknown = (field: string, campus: string) =>
+    errors.push({
+      field: `${prefix}${field}`,
+      code: 'unknown_campus',
+      message: `${campus} is not a known campus`
+    });
+  if (values.campus && !knownCampuses.includes(values.campus)) {
+    unknown('campus', values.campus);
+  }
+  (values.sharedCampuses ?? []).forEach((campus, index) => {
+    if (!knownCampuses.includes(campus)) {
+      unknown(`sharedCampuses.${index}`, campus);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Maps the Prisma errors a client can cause to an HTTP status: a missing
+ * record is a 404, a unique constraint violation a 409.
+ * @param error - The error thrown by Prisma.
+ * @returns The status and error body, or `undefined` for any other error.
+ */
+export function describePrismaError(
+  error: unknown
+): { status: number; body: ApiErrorBody } | undefined {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) {
+    return undefined;
+  }
+  if (error.code === 'P2025') {
+    return {
+      status: 404,
+      body: { code: 'not_found', message: 'Index item not found' }
+    };
+  }
+  if (error.code === 'P2002') {
+    const target = error.meta?.target;
+    const fields = (Array.isArray(target) ? target : [target])
+      .filter(Boolean)
+      .map((field): ApiFieldError => ({
+        field: String(field),
+        code: 'unique',
+        message: `${field} is already in use`
+      }));
+    return {
+      status: 409,
+      body: {
+        code: 'conflict',
+        message: 'An index item with these values already exists',
+        ...(fields.length ? { fields } : {})
+      }
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Responds to an unexpected error, mapping known Prisma errors to 404/409
+ * and everything else to a 500.
+ * @param error - The caught error.
+ * @param message - The message for the 500 case.
+ */
+export function serverError(error: unknown, message: string) {
+  const prismaError = describePrismaError(error);
+  if (prismaError) {
+    const { code, message: prismaMessage, fields } = prismaError.body;
+    return apiError(prismaError.status, prismaMessage, code, fields);
+  }
+  console.error(message, error);
+  return apiError(500, message, 'internal_error');
+}
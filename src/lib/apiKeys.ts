@@ -0,0 +1,175 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKeyScope } from '@prisma/client';
+import prisma from './prisma';
+import { getCache } from './store';
+import { API_KEY_PREFIX } from './requestInfo';
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  READ: 'Read',
+  WRITE: 'Write'
+};
+
+// How much of the key is kept in plain text so admins can tell keys apart
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+// Avoids a database write on every request from a busy key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+// How long the rate limiter trusts its last check of a key, in seconds
+const ACTIVE_KEY_TTL = 60;
+
+// Keys are long and random, so a plain SHA-256 is enough to store them safely
+function hashApiKey(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Retrieves every API key, newest first. Hashes are never returned.
+ * @returns An object containing the keys or an error.
+ */
+export async function getApiKeys() {
+  try {
+    const apiKeys = await prisma.apikey.findMany({
+      select: {
+        id: true,
+        label: true,
+        owner: true,
+        prefix: true,
+        scopes: true,
+        expiresAt: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        createdBy: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+    return { apiKeys };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Issues a new API key. The key itself is only returned here; afterwards
+ * only its hash and first few characters are kept.
+ * @param label - What the key is for, e.g. "Portal sync job".
+ * @param owner - The email whose campus permissions the key writes with.
+ * @param scopes - What the key may do.
+ * @param expiresAt - When the key stops working; `null` for never.
+ * @param createdBy - The admin issuing the key.
+ * @returns An object containing the saved key and the key itself, or an error.
+ */
+export async function createApiKey(
+  label: string,
+  owner: string,
+  scopes: ApiKeyScope[],
+  expiresAt: Date | null,
+  createdBy: string
+) {
+  try {
+    const token = API_KEY_PREFIX + randomBytes(32).toString('base64url');
+    const apiKey = await prisma.apikey.create({
+      data: {
+        label: label.trim(),
+        owner: owner.trim().toLowerCase(),
+        prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashApiKey(token),
+        scopes,
+        expiresAt,
+        createdBy
+      },
+      select: { id: true, label: true, prefix: true }
+    });
+    return { apiKey, token };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Revokes an API key; requests using it are rejected from then on.
+ * @param id - The ID of the key.
+ * @returns An object containing the revoked key or an error.
+ */
+export async function revokeApiKey(id: string) {
+  try {
+    const apiKey = await prisma.apikey.update({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+      select: { id: true, label: true }
+    });
+    return { apiKey };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Checks an API key and that it holds the given scope, and records its use.
+ * @param token - The key sent with the request.
+ * @param scope - The scope the request needs.
+ * @returns An object containing the key, or an error message with the matching HTTP status.
+ */
+export async function verifyApiKey(token: string, scope: ApiKeyScope) {
+  const apiKey = await prisma.apikey.findUnique({
+    where: { keyHash: hashApiKey(token) },
+    select: {
+      id: true,
+      owner: true,
+      keyHash: true,
+      scopes: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      revokedAt: true
+    }
+  });
+  const now = new Date();
+  if (
+    !apiKey ||
+    apiKey.revokedAt ||
+    (apiKey.expiresAt && apiKey.expiresAt <= now)
+  ) {
+    return { error: 'Invalid or expired API key', status: 401 };
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return {
+      error: `This API key does not have the ${API_KEY_SCOPE_LABELS[scope].toLowerCase()} scope`,
+      status: 403
+    };
+  }
+
+  if (
+    !apiKey.lastUsedAt ||
+    now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await prisma.apikey
+      .update({ where: { id: apiKey.id }, data: { lastUsedAt: now } })
+      .catch((error) => console.error('Error recording API key use:', error));
+  }
+  return { apiKey };
+}
+
+/**
+ * Checks that an API key exists and is neither revoked nor expired, so the
+ * rate limiter only gives real keys their own limit. The answer is cached
+ * briefly; a key revoked in the meantime is still refused by the route.
+ * @param token - The key sent with the request.
+ */
+export async function isActiveApiKey(token: string) {
+  const keyHash = hashApiKey(token);
+  const cacheKey = `apikey:active:${keyHash}`;
+  const cache = getCache();
+  const cached = await cache.get<boolean>(cacheKey);
+  if (cached !== null) return cached;
+
+  const apiKey = await prisma.apikey.findUnique({
+    where: { keyHash },
+    select: { revokedAt: true, expiresAt: true }
+  });
+  const active = Boolean(
+    apiKey &&
+    !apiKey.revokedAt &&
+    (!apiKey.expiresAt || apiKey.expiresAt > new Date())
+  );
+  await cache.set(cacheKey, active, { ex: ACTIVE_KEY_TTL });
+  return active;
+}
@@ -0,0 +1,243 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import prisma from './prisma';
+import { normalizeLetter } from './letters';
+import { rankedSearch, type SearchMatch } from './search';
+import { listedOnCampus } from './campuses';
+
+/**
+ * Fields a v1 client can ask for with `fields=`.
+ */
+export const V1_FIELDS = [
+  'id',
+  'title',
+  'url',
+  'letter',
+  'extraLetters',
+  'aliases',
+  'campus',
+  'sharedCampuses',
+  'districtWide',
+  'createdAt',
+  'updatedAt'
+] as const;
+
+/**
+ * Extra fields available on search results.
+ */
+export const V1_SEARCH_FIELDS = ['score', 'highlight'] as const;
+
+export const V1_SORTS = [
+  'title',
+  '-title',
+  'createdAt',
+  '-createdAt',
+  'updatedAt',
+  '-updatedAt',
+  'relevance'
+] as const;
+
+export const V1_DEFAULT_LIMIT = 50;
+export const V1_MAX_LIMIT = 200;
+
+// Search results are ranked in full before paging
+const V1_SEARCH_LIMIT = 1000;
+
+type V1Field = (typeof V1_FIELDS)[number] | (typeof V1_SEARCH_FIELDS)[number];
+type V1Sort = (typeof V1_SORTS)[number];
+
+/**
+ * Parsed query parameters for GET /api/v1/indexItems.
+ */
+export interface V1ListParams {
+  campus?: string;
+  letter?: string;
+  search?: string;
+  fields: V1Field[];
+  sort: V1Sort;
+  limit: number;
+  cursor?: V1Cursor;
+}
+
+// Keyset position for sorted listings, offset for relevance-ranked search
+type V1Cursor = { id: string } | { offset: number };
+
+const cursorSchema = z.union([
+  z.object({ id: z.string().min(1) }),
+  z.object({ offset: z.number().int().min(0) })
+]);
+
+/**
+ * Encodes a cursor as an opaque URL-safe string.
+ */
+function encodeCursor(cursor: V1Cursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): V1Cursor | undefined {
+  try {
+    const parsed = cursorSchema.safeParse(
+      JSON.parse(Buffer.from(value, 'base64url').toString())
+    );
+    return parsed.success ? (parsed.data as V1Cursor) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads and validates the list query parameters.
+ * @param searchParams - The request's query string.
+ * @returns An object containing the parsed parameters, or an error message.
+ */
+export function parseListParams(searchParams: URLSearchParams) {
+  const campus = searchParams.get('campus') || undefined;
+  const search = searchParams.get('search')?.trim() || undefined;
+  const letterParam = searchParams.get('letter');
+  const letter = letterParam ? normalizeLetter(letterParam) : undefined;
+  if (letterParam && !letter) {
+    return { error: 'letter must be a single letter or digit' };
+  }
+
+  const allowedFields: V1Field[] = search
+    ? [...V1_FIELDS, ...V1_SEARCH_FIELDS]
+    : [...V1_FIELDS];
+  const fieldsParam = searchParams.get('fields');
+  const fields = fieldsParam
+    ? (fieldsParam.split(',').map((field) => field.trim()) as V1Field[])
+    : allowedFields;
+  const unknownFields = fields.filter(
+    (field) => !allowedFields.includes(field)
+  );
+  if (unknownFields.length > 0) {
+    return { error: `Unknown field(s): ${unknownFields.join(', ')}` };
+  }
+
+  const sort = (searchParams.get('sort') ||
+    (search ? 'relevance' : 'title')) as V1Sort;
+  if (!V1_SORTS.includes(sort)) {
+    return { error: `sort must be one of ${V1_SORTS.join(', ')}` };
+  }
+  if (sort === 'relevance' && !search) {
+    return { error: 'sort=relevance needs a search term' };
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? Number(limitParam) : V1_DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > V1_MAX_LIMIT) {
+    return { error: `limit must be between 1 and ${V1_MAX_LIMIT}` };
+  }
+
+  const cursorParam = searchParams.get('cursor');
+  const cursor = cursorParam ? decodeCursor(cursorParam) : undefined;
+  if (
+    cursorParam &&
+    (!cursor || (sort === 'relevance') !== 'offset' in cursor)
+  ) {
+    return { error: 'cursor is invalid for this query' };
+  }
+
+  const params: V1ListParams = {
+    campus,
+    letter,
+    search,
+    fields,
+    sort,
+    limit,
+    cursor
+  };
+  return { params };
+}
+
+function pickFields(item: Record<string, unknown>, fields: V1Field[]) {
+  return Object.fromEntries(fields.map((field) => [field, item[field]]));
+}
+
+/**
+ * Lists index items for the v1 API: filtered, sorted and one page at a time.
+ * @param params - Parsed query parameters.
+ * @returns An object containing the page of items and its metadata, or an error.
+ */
+export async function listIndexItems(params: V1ListParams) {
+  try {
+    const where: Prisma.indexitemWhereInput = { deletedAt: null };
+    if (params.campus) where.AND = [listedOnCampus(params.campus)];
+    if (params.letter) {
+      where.OR = [
+        { letter: params.letter },
+        { extraLetters: { has: params.letter } }
+      ];
+    }
+
+    let matches: SearchMatch[] | undefined;
+    if (params.search) {
+      matches = await rankedSearch(params.search, {
+        campus: params.campus,
+        limit: V1_SEARCH_LIMIT
+      });
+      where.id = { in: matches.map((match) => match.id) };
+    }
+    const matchById = new Map(matches?.map((match) => [match.id, match]));
+
+    const select = Object.fromEntries(
+      V1_FIELDS.map((field) => [field, true])
+    ) as Record<(typeof V1_FIELDS)[number], true>;
+    const total = await prisma.indexitem.count({ where });
+
+    let page;
+    let nextCursor: string | null = null;
+    if (params.sort === 'relevance') {
+      const items = await prisma.indexitem.findMany({ where, select });
+      const itemById = new Map(items.map((item) => [item.id, item]));
+      const ranked = matches.filter((match) => itemById.has(match.id));
+      const offset =
+        params.cursor && 'offset' in params.cursor ? params.cursor.offset : 0;
+      page = ranked
+        .slice(offset, offset + params.limit)
+        .map((match) => itemById.get(match.id));
+      if (offset + params.limit < ranked.length) {
+        nextCursor = encodeCursor({ offset: offset + params.limit });
+      }
+    } else {
+      const direction = params.sort.startsWith('-') ? 'desc' : 'asc';
+      const field = params.sort.replace(/^-/, '');
+      const items = await prisma.indexitem.findMany({
+        where,
+        select,
+        // The ID breaks ties so the cursor position is stable
+        orderBy: [{ [field]: direction }, { id: direction }],
+        take: params.limit + 1,
+        ...(params.cursor && 'id' in params.cursor
+          ? { cursor: { id: params.cursor.id }, skip: 1 }
+          : {})
+      });
+      page = items.slice(0, params.limit);
+      if (items.length > params.limit) {
+        nextCursor = encodeCursor({ id: page[page.length - 1].id });
+      }
+    }
+
+    const data = page.map((item) =>
+      pickFields(
+        {
+          ...item,
+          score: matchById.get(item.id)?.score,
+          highlight: matchById.get(item.id)?.highlight
+        },
+        params.fields
+      )
+    );
+    return {
+      data,
+      meta: {
+        total,
+        count: data.length,
+        limit: params.limit,
+        sort: params.sort,
+        nextCursor
+      }
+    };
+  } catch (error) {
+    return { error };
+  }
+}
@@ -0,0 +1,222 @@
+import type { AuditAction, AuditSource, Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+/**
+ * Who made a change and through which entry point.
+ */
+export interface AuditActor {
+  email?: string | null;
+  source: AuditSource;
+}
+
+/**
+ * The index item fields captured in before/after snapshots.
+ */
+export interface AuditSnapshot {
+  id: string;
+  title: string;
+  url: string;
+  letter: string;
+  extraLetters?: string[];
+  aliases?: string[];
+  keywords?: string[];
+  campus: string;
+  sharedCampuses?: string[];
+  districtWide?: boolean;
+}
+
+export interface AuditFilters {
+  itemId?: string;
+  userEmail?: string;
+  from?: Date;
+  to?: Date;
+  // The ID of the last entry on the previous page
+  cursor?: string;
+}
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  SERVER_ACTION: 'Server action',
+  API_ROUTE: 'API route',
+  EDIT_PAGE: 'Edit page',
+  CRON: 'Scheduled job'
+};
+
+const AUDIT_PAGE_SIZE = 200;
+
+export const REVISION_FIELDS = [
+  'title',
+  'url',
+  'letter',
+  'extraLetters',
+  'aliases',
+  'keywords',
+  'campus'
+] as const;
+
+function toSnapshot(item: AuditSnapshot): Prisma.InputJsonObject {
+  return {
+    id: item.id,
+    title: item.title,
+    url: item.url,
+    letter: item.letter,
+    extraLetters: item.extraLetters,
+    aliases: item.aliases,
+    keywords: item.keywords,
+    campus: item.campus,
+    sharedCampuses: item.sharedCampuses,
+    districtWide: item.districtWide
+  };
+}
+
+/**
+ * Formats a snapshot field for display, joining lists with commas.
+ * @param value - The field value from a snapshot.
+ */
+export function formatSnapshotValue(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value.join(', ') : (value ?? '');
+}
+
+/**
+ * Lists the revision fields that differ between two snapshots. Fields missing
+ * from either one, as in snapshots saved before the field was recorded, are skipped.
+ * @param before - The earlier snapshot.
+ * @param after - The later snapshot.
+ */
+export function getChangedFields(
+  before: Partial<AuditSnapshot>,
+  after: Partial<AuditSnapshot>
+) {
+  return REVISION_FIELDS.filter(
+    (field) =>
+      before[field] !== undefined &&
+      after[field] !== undefined &&
+      formatSnapshotValue(before[field]) !== formatSnapshotValue(after[field])
+  );
+}
+
+/**
+ * Records a single mutation in the audit log.
+ * Pass the transaction client so the entry is written atomically with the change.
+ * @param tx - The Prisma transaction client.
+ * @param action - The kind of mutation.
+ * @param itemId - The ID of the index item that changed.
+ * @param actor - Who made the change and from where.
+ * @param before - Snapshot of the item before the change (omit for creates).
+ * @param after - Snapshot of the item after the change (omit for deletes).
+ */
+export async function recordAudit(
+  tx: Prisma.TransactionClient,
+  action: AuditAction,
+  itemId: string,
+  actor: AuditActor,
+  before?: AuditSnapshot,
+  after?: AuditSnapshot
+) {
+  return tx.auditlog.create({
+    data: {
+      action,
+      itemId,
+      source: actor.source,
+      userEmail: actor.email ?? null,
+      before: before ? toSnapshot(before) : undefined,
+      after: after ? toSnapshot(after) : undefined
+    }
+  });
+}
+
+/**
+ * Retrieves a page of audit log entries, newest first.
+ * @param filters - Optional item, user and date range filters, and the cursor of the page to read.
+ * @returns An object containing the matching entries and the cursor of the next page (undefined on the last page), or an error.
+ */
+export async function getAuditLogs(filters: AuditFilters = {}) {
+  try {
+    const where: Prisma.auditlogWhereInput = {};
+    if (filters.itemId) where.itemId = filters.itemId;
+    if (filters.userEmail) {
+      where.userEmail = { contains: filters.userEmail, mode: 'insensitive' };
+    }
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from ? { gte: filters.from } : {}),
+        ...(filters.to ? { lte: filters.to } : {})
+      };
+    }
+
+    // One extra row tells whether there is another page
+    const entries = await prisma.auditlog.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: AUDIT_PAGE_SIZE + 1,
+      ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {})
+    });
+    const auditLogs = entries.slice(0, AUDIT_PAGE_SIZE);
+    const nextCursor =
+      entries.length > AUDIT_PAGE_SIZE
+        ? auditLogs[auditLogs.length - 1].id
+        : undefined;
+    return { auditLogs, nextCursor };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Retrieves the saved versions of an index item, newest first.
+ * Each version is the "after" snapshot of a create, update or restore, along
+ * with the fields that changed compared to the snapshot before it.
+ * @param itemId - The ID of the index item.
+ * @returns An object containing the revisions or an error.
+ */
+export async function getIndexItemRevisions(itemId: string) {
+  try {
+    const entries = await prisma.auditlog.findMany({
+      where: { itemId, action: { in: ['CREATE', 'UPDATE', 'RESTORE'] } },
+      orderBy: { createdAt: 'desc' }
+    });
+    const revisions = entries
+      .filter((entry) => entry.after)
+      .map((entry) => {
+        const after = entry.after as unknown as AuditSnapshot;
+        const before = entry.before as unknown as AuditSnapshot | null;
+        const changes = before
+          ? getChangedFields(before, after).map((field) => ({
+              field,
+              from: formatSnapshotValue(before[field]),
+              to: formatSnapshotValue(after[field])
+            }))
+          : [];
+        return {
+          id: entry.id,
+          action: entry.action,
+          userEmail: entry.userEmail,
+          createdAt: entry.createdAt,
+          snapshot: after,
+          changes
+        };
+      });
+    return { revisions };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Retrieves a single revision snapshot, making sure it belongs to the item.
+ * @param itemId - The ID of the index item.
+ * @param revisionId - The ID of the audit log entry holding the snapshot.
+ * @returns An object containing the snapshot or an error.
+ */
+export async function getIndexItemRevision(itemId: string, revisionId: string) {
+  try {
+    const entry = await prisma.auditlog.findFirst({
+      where: { id: revisionId, itemId }
+    });
+    if (!entry?.after) {
+      return { error: 'Revision not found' };
+    }
+    return { snapshot: entry.after as unknown as AuditSnapshot };
+  } catch (error) {
+    return { error };
+  }
+}
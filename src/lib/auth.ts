@@ -0,0 +1,120 @@
+import type { Role } from '@prisma/client';
+import { getServerSession } from 'next-auth/next';
+import authOptions from '@/app/api/auth/[...nextauth]/options';
+import { canEditCampus, getAccessForEmail, hasRole } from './roles';
+import { verifyApiKey } from './apiKeys';
+import { getRequestApiKey } from './requestInfo';
+import type { AuditActor } from './audit';
+
+/**
+ * Returns the current session, with the role and campuses attached by the auth callbacks.
+ */
+export async function getSession() {
+  return getServerSession(authOptions);
+}
+
+/**
+ * Checks that the current user is signed in and holds at least the given role.
+ * @param required - The minimum role needed.
+ * @returns An object containing the session, or an error message with the matching HTTP status.
+ */
+export async function authorize(required: Role) {
+  const session = await getSession();
+  if (!session?.user?.email) {
+    return { error: 'You must be signed in', status: 401 };
+  }
+  if (!hasRole(session.user.role, required)) {
+    return {
+      error: 'You do not have permission to perform this action',
+      status: 403
+    };
+  }
+  return { session };
+}
+
+/**
+ * Checks that the current user may edit items on every one of the given campuses.
+ * @param campuses - The campuses touched by the change (e.g. the item's old and new campus).
+ * @returns An object containing the session, or an error message with the matching HTTP status.
+ */
+export async function authorizeCampus(...campuses: string[]) {
+  const { session, error, status } = await authorize('CAMPUS_EDITOR');
+  if (error) {
+    return { error, status };
+  }
+  const denied = campuses.find(
+    (campus) => !canEditCampus(session.user, campus)
+  );
+  if (denied !== undefined) {
+    return {
+      error: `You do not have permission to edit ${denied} items`,
+      status: 403
+    };
+  }
+  return { session };
+}
+
+/**
+ * Who is making an API write, and the campus permissions they act with.
+ */
+export interface ApiWriter {
+  actor: AuditActor;
+  access: { role?: Role; campuses?: string[] };
+  // Whether the write came with an API key rather than a session
+  viaApiKey: boolean;
+}
+
+/**
+ * Identifies who is making an API write, before the body is read. Requests
+ * with an API key need its write scope and act with the campus permissions of
+ * the key's owner; anything else needs a signed-in campus editor.
+ * @param req - The incoming request.
+ * @returns An object containing the writer, or an error message with the matching HTTP status.
+ */
+export async function authorizeApiWrite(req: Request) {
+  const token = getRequestApiKey(req);
+  if (!token) {
+    const { session, error, status } = await authorize('CAMPUS_EDITOR');
+    if (error) {
+      return { error, status };
+    }
+    const writer: ApiWriter = {
+      actor: { email: session.user.email, source: 'API_ROUTE' },
+      access: session.user,
+      viaApiKey: false
+    };
+    return { writer };
+  }
+
+  const { apiKey, error, status } = await verifyApiKey(token, 'WRITE');
+  if (error) {
+    return { error, status };
+  }
+  const writer: ApiWriter = {
+    actor: { email: apiKey.owner, source: 'API_ROUTE' },
+    access: await getAccessForEmail(apiKey.owner),
+    viaApiKey: true
+  };
+  return { writer };
+}
+
+/**
+ * Checks that an API writer may change items on every one of the given campuses.
+ * @param writer - The writer returned by `authorizeApiWrite`.
+ * @param campuses - The campuses touched by the change.
+ * @returns An object containing the actor to record in the audit log, or an error message with the matching HTTP status.
+ */
+export function authorizeApiCampuses(writer: ApiWriter, ...campuses: string[]) {
+  const denied = campuses.find(
+    (campus) => !canEditCampus(writer.access, campus)
+  );
+  if (denied !== undefined) {
+    return {
+      error: writer.viaApiKey
+        ? `This API key's owner does not have permission to edit ${denied} items`
+        : `You do not have permission to edit ${denied} items`,
+      status: 403
+    };
+  }
+  return { actor: writer.actor };
+}
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import prisma from './prisma';
+import type { AuditActor } from './audit';
+import { getCampusNames, getNewlySharedCampuses } from './campuses';
+import {
+  checkCampuses,
+  describePrismaError,
+  type ApiErrorBody,
+  type ApiFieldError
+} from './apiErrors';
+import {
+  indexItemApiSchema,
+  indexItemPatchSchema,
+  type IndexItemInput
+} from './indexItemSchema';
+import {
+  INDEX_ITEM_SELECT,
+  createIndexItemInTx,
+  deleteIndexItemInTx,
+  updateIndexItemInTx
+} from './indexItemWrites';
+
+export const MAX_BULK_OPERATIONS = 500;
+
+// A full batch runs inside one interactive transaction
+const BULK_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+const bulkOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('create'), data: indexItemApiSchema }),
+  z.object({
+    op: z.literal('update'),
+    id: z.string().min(1),
+    data: indexItemPatchSchema
+  }),
+  z.object({ op: z.literal('delete'), id: z.string().min(1) })
+]);
+
+/**
+ * Request body for the bulk endpoint. Updates only change the fields they
+ * include, so an item keeps its ID however much of it changes.
+ */
+export const bulkRequestSchema = z.object({
+  operations: z
+    .array(bulkOperationSchema)
+    .min(1, { message: 'At least one operation is required' })
+    .max(MAX_BULK_OPERATIONS, {
+      message: `At most ${MAX_BULK_OPERATIONS} operations per request`
+    })
+});
+
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+
+/**
+ * The outcome of one operation. When any operation fails the whole batch is
+ * rolled back: the failed one says why, earlier ones are `rolledBack` and
+ * later ones `skipped`.
+ */
+export interface BulkOperationResult {
+  index: number;
+  op: BulkOperation['op'];
+  status: 'ok' | 'failed' | 'rolledBack' | 'skipped';
+  id?: string;
+  item?: Record<string, unknown>;
+  error?: ApiErrorBody;
+}
+
+// Thrown inside the transaction to roll it back after an operation fails
+class BulkOperationError extends Error {
+  constructor(
+    public index: number,
+    public cause: unknown
+  ) {
+    super(`Bulk operation ${index} failed`);
+  }
+}
+
+function describeError(error: unknown): ApiErrorBody {
+  return (
+    describePrismaError(error)?.body ?? {
+      code: 'internal_error',
+      message: 'Operation failed'
+    }
+  );
+}
+
+/**
+ * Finds operations that name a campus that doesn't exist.
+ * @param operations - The validated operations.
+ * @returns A field error for each unknown campus.
+ */
+export async function findUnknownCampuses(operations: BulkOperation[]) {
+  const knownCampuses = await getCampusNames(true);
+  const errors: ApiFieldError[] = [];
+  operations.forEach((operation, index) => {
+    if (operation.op === 'delete') return;
+    errors.push(
+      ...checkCampuses(
+        operation.data,
+        knownCampuses,
+        `operations.${index}.data.`
+      )
+    );
+  });
+  return errors;
+}
+
+/**
+ * Lists the campuses a batch touches: each created item's campus, the
+ * current and new campus of every item updated or deleted, and any campus an
+ * item is newly shared with. Items that don't exist are left out here and
+ * fail when the batch runs.
+ * @param operations - The validated operations.
+ * @returns An object containing the campuses and the existing items, or an error.
+ */
+export async function getBulkCampuses(operations: BulkOperation[]) {
+  try {
+    const ids = operations.flatMap((operation) =>
+      operation.op === 'create' ? [] : [operation.id]
+    );
+    const existing = await prisma.indexitem.findMany({
+      where: { id: { in: ids }, deletedAt: null },
+      select: {
+        id: true,
+        campus: true,
+        sharedCampuses: true,
+        districtWide: true
+      }
+    });
+    const campuses = new Set(existing.map((item) => item.campus));
+    for (const operation of operations) {
+      if (operation.op === 'delete') continue;
+      if (operation.data.campus) campuses.add(operation.data.campus);
+      const current =
+        operation.op === 'update'
+          ? existing.find((item) => item.id === operation.id)
+          : undefined;
+      (await getNewlySharedCampuses(operation.data, current)).forEach(
+        (campus) => campuses.add(campus)
+      );
+    }
+    return { campuses: Array.from(campuses), existingItems: existing };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Runs a batch of creates, updates and deletes in a single transaction, with
+ * an audit entry for each change.
+ * @param operations - The validated operations, applied in order.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @returns An object containing a result per operation and the written items, or the results and an error when the batch was rolled back.
+ */
+export async function runBulkOperations(
+  operations: BulkOperation[],
+  actor: AuditActor
+) {
+  try {
+    const items = await prisma.$transaction(
+      async (tx) => {
+        const written = [];
+        for (let index = 0; index < operations.length; index++) {
+          const operation = operations[index];
+          try {
+            if (operation.op === 'create') {
+              written.push(
+                await createIndexItemInTx(
+                  tx,
+                  operation.data as IndexItemInput,
+                  actor
+                )
+              );
+            } else if (operation.op === 'update') {
+              const current = await tx.indexitem.findUniqueOrThrow({
+                where: { id: operation.id, deletedAt: null },
+                select: INDEX_ITEM_SELECT
+              });
+              written.push(
+                await updateIndexItemInTx(
+                  tx,
+                  operation.id,
+                  {
+                    title: operation.data.title ?? current.title,
+                    url: operation.data.url ?? current.url,
+                    letter: operation.data.letter ?? current.letter,
+                    campus: operation.data.campus ?? current.campus,
+                    extraLetters: operation.data.extraLetters,
+                    aliases: operation.data.aliases,
+                    keywords: operation.data.keywords,
+                    sharedCampuses: operation.data.sharedCampuses,
+                    districtWide: operation.data.districtWide
+                  },
+                  actor
+                )
+              );
+            } else {
+              written.push(await deleteIndexItemInTx(tx, operation.id, actor));
+            }
+          } catch (error) {
+            throw new BulkOperationError(index, error);
+          }
+        }
+        return written;
+      },
+      { timeout: BULK_TRANSACTION_TIMEOUT_MS }
+    );
+
+    const results: BulkOperationResult[] = operations.map(
+      (operation, index) => ({
+        index,
+        op: operation.op,
+        status: 'ok',
+        id: items[index].id,
+        item: items[index]
+      })
+    );
+    return { results, items };
+  } catch (error) {
+    if (!(error instanceof BulkOperationError)) {
+      return { error };
+    }
+    const results: BulkOperationResult[] = operations.map(
+      (operation, index) => ({
+        index,
+        op: operation.op,
+        status:
+          index < error.index
+            ? 'rolledBack'
+            : index === error.index
+              ? 'failed'
+              : 'skipped',
+        id: operation.op === 'create' ? undefined : operation.id,
+        error: index === error.index ? describeError(error.cause) : undefined
+      })
+    );
+    return { results, error };
+  }
+}
@@ -1,36 +1,102 @@
-import { kv } from '@vercel/kv';
+import { after } from 'next/server';
 import prisma from './prisma';
+import { getCache } from './store';
+import { withAliasEntries } from './aliases';
+import { getCampusNames, listedOnCampus, type CampusSharing } from './campuses';
 
 const CACHE_TTL = 60 * 60; // 1 hour, matches route.ts
+const GENERATION_KEY = 'index:generation';
 
-const CAMPUSES = [
-  'College of San Mateo',
-  'Cañada College',
-  'District Office',
-  'Skyline College',
-];
+/**
+ * A changed item: its campus plus any campuses it is shared with.
+ */
+export type ListedItem = { campus: string } & CampusSharing;
+
+// One counter per campus, plus one for listings that span every campus
+function generationKey(campus?: string) {
+  return campus ? `${GENERATION_KEY}:${campus.toLowerCase()}` : GENERATION_KEY;
+}
 
 /**
- * Purge all index:* KV keys, then warm cache for each campus.
- * Call revalidatePath() separately in the calling server action for ISR.
+ * Builds the cache key for an index listing or search. The key embeds the
+ * current generation of its campus (or of the whole index when there is no
+ * campus), so once that changes older keys are never read again and simply
+ * expire.
+ * @param campus - The campus filter, if any.
+ * @param parts - The rest of the query, e.g. letter and search text.
  */
-export async function purgeAndWarmCache() {
-  // 1. Flush all index:* keys
-  const keys = await kv.keys('index:*');
-  if (keys.length > 0) {
-    await kv.del(...keys);
-  }
+export async function getIndexCacheKey(
+  campus: string | undefined,
+  ...parts: string[]
+) {
+  const generation = (await getCache().get<number>(generationKey(campus))) ?? 0;
+  return ['index', generation, campus ?? '', ...parts].join(':');
+}
 
-  // 2. Warm: query each campus and cache the result
+/**
+ * Caches the A-Z listing for each campus.
+ * @param campuses - The campuses to warm; every active campus by default.
+ */
+export async function warmIndexCache(campuses?: string[]) {
+  const cache = getCache();
+  if (!campuses) campuses = await getCampusNames();
   await Promise.all(
-    CAMPUSES.map(async (campus) => {
+    campuses.map(async (campus) => {
       const items = await prisma.indexitem.findMany({
-        where: { campus },
-        select: { id: true, title: true, url: true, letter: true, campus: true },
+        where: { deletedAt: null, AND: [listedOnCampus(campus)] },
+        select: {
+          id: true,
+          title: true,
+          url: true,
+          letter: true,
+          extraLetters: true,
+          aliases: true,
+          campus: true,
+          sharedCampuses: true,
+          districtWide: true,
+        },
         orderBy: { title: 'asc' },
       });
-      const cacheKey = `index:${campus}::`;
-      await kv.set(cacheKey, JSON.stringify(items), { ex: CACHE_TTL });
-    })
+      // Same shape as the unfiltered API response, alias entries included
+      const cacheKey = await getIndexCacheKey(campus, '', '');
+      await cache.set(cacheKey, JSON.stringify(withAliasEntries(items)), {
+        ex: CACHE_TTL,
+      });
+    }),
   );
 }
+
+/**
+ * Stops cached listings and searches for the campuses that list the given
+ * items, and for the index as a whole, from being read. Other campuses keep
+ * their cache; a district-wide item touches them all. The affected campus
+ * listings are warmed again after the response is sent.
+ * Call revalidatePath() separately in the calling server action for ISR.
+ * @param items - The changed items, old and new versions.
+ */
+export async function invalidateIndexCache(items: ListedItem[]) {
+  const cache = getCache();
+  const campuses = new Set<string>();
+  items.forEach((item) =>
+    [item.campus, ...(item.sharedCampuses ?? [])].forEach((campus) =>
+      campuses.add(campus),
+    ),
+  );
+  if (items.some((item) => item.districtWide)) {
+    (await getCampusNames(true)).forEach((campus) => campuses.add(campus));
+  }
+  const changed = Array.from(campuses);
+  await Promise.all([
+    cache.incr(generationKey()),
+    ...changed.map((campus) => cache.incr(generationKey(campus))),
+  ]);
+
+  after(async () => {
+    try {
+      const active = await getCampusNames();
+      await warmIndexCache(changed.filter((campus) => active.includes(campus)));
+    } catch (error) {
+      console.error('Error warming the index cache:', error);
+    }
+  });
+}
@@ -0,0 +1,213 @@
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import prisma from './prisma';
+
+const optionalHexColor = z
+  .string()
+  .regex(/^(#[0-9a-fA-F]{6})?$/, { message: 'Colors must look like #1c3f94' })
+  .optional();
+
+/**
+ * Validation rules for a campus, shared by the admin screen and the server action.
+ */
+export const campusSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, {
+    message: 'Slug must be lowercase letters, digits and dashes'
+  }),
+  name: z.string().trim().min(1, { message: 'Name is required' }),
+  domain: z
+    .string()
+    .regex(/^([a-z0-9-]+\.)+[a-z]{2,}$|^$/i, {
+      message: 'Domain must look like skylinecollege.edu'
+    })
+    .optional(),
+  primaryColor: optionalHexColor,
+  secondaryColor: optionalHexColor,
+  active: z.boolean()
+});
+
+export type CampusInput = z.infer<typeof campusSchema>;
+
+/**
+ * The campus fields the forms and filters need.
+ */
+export interface CampusOption {
+  slug: string;
+  name: string;
+}
+
+/**
+ * The sharing fields of an index item.
+ */
+export interface CampusSharing {
+  sharedCampuses?: string[];
+  districtWide?: boolean;
+}
+
+const CAMPUS_SELECT = {
+  id: true,
+  slug: true,
+  name: true,
+  domain: true,
+  primaryColor: true,
+  secondaryColor: true,
+  active: true
+} as const;
+
+// "Cañada", "Canada" and "canada " all compare equal
+function normalizeCampusName(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Retrieves the campuses ordered by name.
+ * @param includeInactive - Also return campuses that are switched off.
+ * @returns An object containing the campuses or an error.
+ */
+export async function getCampuses(includeInactive = false) {
+  try {
+    const campuses = await prisma.campus.findMany({
+      where: includeInactive ? {} : { active: true },
+      select: CAMPUS_SELECT,
+      orderBy: { name: 'asc' }
+    });
+    return { campuses };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Returns the campus names, or an empty list if they can't be read.
+ * @param includeInactive - Also return campuses that are switched off.
+ */
+export async function getCampusNames(includeInactive = false) {
+  const { campuses, error } = await getCampuses(includeInactive);
+  if (error) console.error('Error loading campuses:', error);
+  return (campuses ?? []).map((campus) => campus.name);
+}
+
+/**
+ * Picks the campus a slug or name refers to, ignoring case and accents, so
+ * "canada" and "Canada College" both match Cañada College.
+ * @param campuses - The campuses to choose from.
+ * @param value - The slug or name to look up.
+ * @returns The matching campus, or undefined.
+ */
+export function matchCampus<T extends CampusOption>(
+  campuses: T[],
+  value: string
+) {
+  const normalized = normalizeCampusName(value);
+  return campuses.find(
+    (campus) =>
+      campus.slug === normalized ||
+      normalizeCampusName(campus.name) === normalized
+  );
+}
+
+/**
+ * Finds an active campus by slug or name; see matchCampus().
+ * @param value - The slug or name to look up.
+ * @returns An object containing the campus, which is undefined when nothing matches, or an error.
+ */
+export async function findCampus(value: string) {
+  const { campuses, error } = await getCampuses();
+  if (error) return { error };
+  return { campus: matchCampus(campuses, value) };
+}
+
+/**
+ * The filter for items listed on a campus: its own items, items shared with
+ * it and district-wide items.
+ * @param campus - The campus name.
+ */
+export function listedOnCampus(campus: string): Prisma.indexitemWhereInput {
+  return {
+    OR: [
+      { campus: { equals: campus, mode: 'insensitive' } },
+      { sharedCampuses: { has: campus } },
+      { districtWide: true }
+    ]
+  };
+}
+
+/**
+ * Lists the campuses a change newly lists an item on: campuses added to its
+ * shared list, or every campus when it becomes district-wide. Whoever makes
+ * the change must be able to edit each of them.
+ * @param after - The item's sharing after the change.
+ * @param before - The item's sharing before the change; omit for new items.
+ * @returns The campus names.
+ */
+export async function getNewlySharedCampuses(
+  after: CampusSharing,
+  before: CampusSharing = {}
+) {
+  if (after.districtWide && !before.districtWide) {
+    return getCampusNames(true);
+  }
+  const previous = before.sharedCampuses ?? [];
+  return (after.sharedCampuses ?? []).filter(
+    (campus) => !previous.includes(campus)
+  );
+}
+
+/**
+ * Creates a campus, or updates one when an ID is given. Renaming a campus
+ * moves its items with it and keeps shared items and editors' campus
+ * permissions in step.
+ * @param id - The ID of the campus to update, or undefined to create one.
+ * @param input - The validated campus fields.
+ * @returns An object containing the saved campus and its previous name, or an error.
+ */
+export async function saveCampus(id: string | undefined, input: CampusInput) {
+  try {
+    const data = {
+      slug: input.slug,
+      name: input.name,
+      domain: input.domain || null,
+      primaryColor: input.primaryColor || null,
+      secondaryColor: input.secondaryColor || null,
+      active: input.active
+    };
+    if (!id) {
+      const campus = await prisma.campus.create({
+        data,
+        select: CAMPUS_SELECT
+      });
+      return { campus, previousName: campus.name };
+    }
+
+    const { campus, previousName } = await prisma.$transaction(async (tx) => {
+      const before = await tx.campus.findUniqueOrThrow({
+        where: { id },
+        select: { name: true }
+      });
+      // Item rows follow through the foreign key's ON UPDATE CASCADE
+      const saved = await tx.campus.update({
+        where: { id },
+        data,
+        select: CAMPUS_SELECT
+      });
+      if (before.name !== saved.name) {
+        await tx.$executeRaw`
+          UPDATE "indexitem"
+          SET "sharedCampuses" = array_replace("sharedCampuses", ${before.name}, ${saved.name})
+          WHERE ${before.name} = ANY("sharedCampuses")`;
+        await tx.$executeRaw`
+          UPDATE "adminuser"
+          SET "campuses" = array_replace("campuses", ${before.name}, ${saved.name})
+          WHERE ${before.name} = ANY("campuses")`;
+      }
+      return { campus: saved, previousName: before.name };
+    });
+    return { campus, previousName };
+  } catch (error) {
+    return { error };
+  }
+}
@@ -0,0 +1,13 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Checks that a request comes from Vercel cron, which sends the CRON_SECRET
+ * as a bearer token. Without a secret every request is refused, except in
+ * development.
+ * @param req - The incoming request.
+ */
+export function isAuthorizedCronRequest(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return process.env.NODE_ENV === 'development';
+  return req.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
@@ -0,0 +1,231 @@
+import prisma from './prisma';
+import { recordAudit, type AuditActor } from './audit';
+import { INDEX_ITEM_SELECT } from './indexItemWrites';
+
+export type DuplicateReason = 'url' | 'title';
+
+export interface DuplicateCandidate {
+  id: string;
+  title: string;
+  url: string;
+  letter: string;
+  campus: string;
+}
+
+/**
+ * A set of live index items that look like copies of each other.
+ */
+export interface DuplicateGroup {
+  items: DuplicateCandidate[];
+  reasons: DuplicateReason[];
+  crossCampus: boolean;
+}
+
+/**
+ * An existing item that matches an item being created or edited.
+ */
+export interface DuplicateMatch extends DuplicateCandidate {
+  reasons: DuplicateReason[];
+}
+
+// Default documents that serve the same page as their directory
+const INDEX_DOCUMENT = /\/(index|default)\.(html?|php|aspx?)$/;
+
+/**
+ * Reduces a URL to a comparison key: case, protocol, "www.", fragments,
+ * index documents and trailing slashes are ignored.
+ * @param url - The URL to normalize.
+ */
+export function normalizeUrl(url: string) {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/#.*$/, '')
+    .replace(INDEX_DOCUMENT, '')
+    .replace(/\/+(\?|$)/, '$1');
+}
+
+/**
+ * Reduces a title to a comparison key: case, accents, punctuation, spacing
+ * and "&" versus "and" are ignored.
+ * @param title - The title to normalize.
+ */
+export function normalizeTitle(title: string) {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function matchReasons(
+  a: Pick<DuplicateCandidate, 'title' | 'url'>,
+  b: Pick<DuplicateCandidate, 'title' | 'url'>
+) {
+  const reasons: DuplicateReason[] = [];
+  if (normalizeUrl(a.url) === normalizeUrl(b.url)) reasons.push('url');
+  if (normalizeTitle(a.title) === normalizeTitle(b.title)) {
+    reasons.push('title');
+  }
+  return reasons;
+}
+
+async function getLiveItems() {
+  return prisma.indexitem.findMany({
+    where: { deletedAt: null },
+    select: { id: true, title: true, url: true, letter: true, campus: true },
+    orderBy: [{ title: 'asc' }, { campus: 'asc' }]
+  });
+}
+
+/**
+ * Groups live index items that share a normalized URL or title, within a
+ * campus and across campuses. Items linked through either key end up in the
+ * same group.
+ * @returns An object containing the duplicate groups, largest first, or an error.
+ */
+export async function getDuplicateGroups() {
+  try {
+    const items = await getLiveItems();
+
+    // Union-find over item indexes, joined on each shared key
+    const parents = items.map((_, index) => index);
+    const find = (index: number): number =>
+      parents[index] === index
+        ? index
+        : (parents[index] = find(parents[index]));
+    const firstByKey = new Map<string, number>();
+    const reasonsByRoot = new Map<number, Set<DuplicateReason>>();
+    const keyed: [DuplicateReason, (item: DuplicateCandidate) => string][] = [
+      ['url', (item) => normalizeUrl(item.url)],
+      ['title', (item) => normalizeTitle(item.title)]
+    ];
+
+    items.forEach((item, index) => {
+      for (const [reason, toKey] of keyed) {
+        const key = `${reason}|${toKey(item)}`;
+        const first = firstByKey.get(key);
+        if (first === undefined) {
+          firstByKey.set(key, index);
+          continue;
+        }
+        const root = find(first);
+        const other = find(index);
+        const reasons = reasonsByRoot.get(root) ?? new Set<DuplicateReason>();
+        reasonsByRoot.get(other)?.forEach((value) => reasons.add(value));
+        reasons.add(reason);
+        parents[other] = root;
+        reasonsByRoot.set(root, reasons);
+      }
+    });
+
+    const members = new Map<number, DuplicateCandidate[]>();
+    items.forEach((item, index) => {
+      const root = find(index);
+      members.set(root, [...(members.get(root) ?? []), item]);
+    });
+
+    const groups: DuplicateGroup[] = Array.from(members.entries())
+      .filter(([, group]) => group.length > 1)
+      .map(([root, group]) => ({
+        items: group,
+        reasons: Array.from(reasonsByRoot.get(root) ?? []),
+        crossCampus: new Set(group.map((item) => item.campus)).size > 1
+      }))
+      .sort((a, b) => b.items.length - a.items.length);
+
+    return { groups };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Finds live index items that would duplicate the given values, for warning
+ * before a save.
+ * @param values - The title and URL being saved.
+ * @param excludeId - The item being edited, which should not match itself.
+ * @returns An object containing the matching items or an error.
+ */
+export async function findLikelyDuplicates(
+  values: { title: string; url: string },
+  excludeId?: string
+) {
+  try {
+    const items = await getLiveItems();
+    const duplicates: DuplicateMatch[] = items
+      .filter((item) => item.id !== excludeId)
+      .map((item) => ({ ...item, reasons: matchReasons(values, item) }))
+      .filter((item) => item.reasons.length > 0);
+    return { duplicates };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Merges duplicates into one item by moving the others to the trash, with an
+ * audit entry for each. When sharing, the kept item is listed on every campus
+ * the removed copies were, so copies made for each college become one shared
+ * item.
+ * @param keepId - The ID of the item to keep.
+ * @param removeIds - The IDs of the duplicates to remove.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @param share - Share the kept item with the removed items' campuses.
+ * @returns An object containing the kept and removed items or an error.
+ */
+export async function mergeIndexItems(
+  keepId: string,
+  removeIds: string[],
+  actor: AuditActor,
+  share = false
+) {
+  try {
+    const { keptItem, removedItems } = await prisma.$transaction(async (tx) => {
+      let keptItem = await tx.indexitem.findUniqueOrThrow({
+        where: { id: keepId, deletedAt: null },
+        select: INDEX_ITEM_SELECT
+      });
+      const removedItems = [];
+      for (const id of removeIds.filter((id) => id !== keepId)) {
+        const removed = await tx.indexitem.update({
+          where: { id, deletedAt: null },
+          data: { deletedAt: new Date() },
+          select: INDEX_ITEM_SELECT
+        });
+        await recordAudit(tx, 'DELETE', id, actor, removed);
+        removedItems.push(removed);
+      }
+
+      if (share && removedItems.length > 0) {
+        const sharedCampuses = new Set(keptItem.sharedCampuses);
+        removedItems.forEach((item) =>
+          [item.campus, ...item.sharedCampuses].forEach((campus) =>
+            sharedCampuses.add(campus)
+          )
+        );
+        sharedCampuses.delete(keptItem.campus);
+        const before = keptItem;
+        keptItem = await tx.indexitem.update({
+          where: { id: keepId },
+          data: {
+            sharedCampuses: Array.from(sharedCampuses),
+            districtWide:
+              keptItem.districtWide ||
+              removedItems.some((item) => item.districtWide)
+          },
+          select: INDEX_ITEM_SELECT
+        });
+        await recordAudit(tx, 'UPDATE', keepId, actor, before, keptItem);
+      }
+      return { keptItem, removedItems };
+    });
+    return { keptItem, removedItems };
+  } catch (error) {
+    return { error };
+  }
+}
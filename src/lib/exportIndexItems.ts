@@ -0,0 +1,98 @@
+import ExcelJS from 'exceljs';
+import prisma from './prisma';
+import { toCsv } from './csv';
+import { rankedSearch } from './search';
+import { listedOnCampus } from './campuses';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'xlsx'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'url',
+  'letter',
+  'campus',
+  'createdAt',
+  'updatedAt'
+] as const;
+
+/**
+ * Retrieves the index items to export, optionally narrowed the same way as the admin search.
+ * @param query - Optional search text, matched like the admin search.
+ * @param campus - Optional campus filter.
+ * @returns An object containing the items or an error.
+ */
+export async function getExportItems(query?: string, campus?: string) {
+  try {
+    const matchIds = query?.trim()
+      ? (await rankedSearch(query, { campus })).map((match) => match.id)
+      : undefined;
+    const items = await prisma.indexitem.findMany({
+      where: {
+        deletedAt: null,
+        ...(matchIds ? { id: { in: matchIds } } : {}),
+        ...(campus ? { AND: [listedOnCampus(campus)] } : {})
+      },
+      select: {
+        id: true,
+        title: true,
+        url: true,
+        letter: true,
+        campus: true,
+        createdAt: true,
+        updatedAt: true
+      },
+      orderBy: { title: 'asc' }
+    });
+    return { items };
+  } catch (error) {
+    return { error };
+  }
+}
+
+type ExportItem = Awaited<ReturnType<typeof getExportItems>>['items'][number];
+
+/**
+ * Serializes index items in the requested format.
+ * @param items - The items to export.
+ * @param format - csv, json or xlsx.
+ * @returns The file body and its content type.
+ */
+export async function serializeExport(
+  items: ExportItem[],
+  format: ExportFormat
+): Promise<{ body: string | ArrayBuffer; contentType: string }> {
+  if (format === 'json') {
+    return {
+      body: JSON.stringify(items, null, 2),
+      contentType: 'application/json'
+    };
+  }
+
+  if (format === 'csv') {
+    return {
+      body: toCsv([
+        [...EXPORT_COLUMNS],
+        ...items.map((item) => EXPORT_COLUMNS.map((column) => item[column]))
+      ]),
+      contentType: 'text/csv; charset=utf-8'
+    };
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Site Index');
+  sheet.columns = EXPORT_COLUMNS.map((column) => ({
+    header: column,
+    key: column,
+    width: column === 'url' || column === 'title' ? 50 : 20
+  }));
+  sheet.addRows(items);
+  sheet.getRow(1).font = { bold: true };
+  return {
+    body: (await workbook.xlsx.writeBuffer()) as ArrayBuffer,
+    contentType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  };
+}
@@ -0,0 +1,138 @@
+import type { Session } from 'next-auth';
+import prisma from './prisma';
+import { parseCsv } from './csv';
+import { getCampuses, matchCampus } from './campuses';
+import { canEditCampus } from './roles';
+import type { AuditActor } from './audit';
+import { createIndexItemInTx } from './indexItemWrites';
+import { indexItemSchema, type IndexItemInput } from './indexItemSchema';
+import { normalizeTitle, normalizeUrl } from './duplicates';
+import { deriveLetter } from './letters';
+
+const IMPORT_COLUMNS = ['title', 'url', 'letter', 'campus'] as const;
+// A missing letter column means every letter is derived from its title
+const REQUIRED_COLUMNS = IMPORT_COLUMNS.filter((name) => name !== 'letter');
+
+// Large imports run inside one interactive transaction
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * A CSV row as shown in the import preview.
+ */
+export interface ImportPreviewRow extends IndexItemInput {
+  line: number;
+  errors: string[];
+  duplicateOf?: string;
+}
+
+/**
+ * Parses and validates a CSV of index items without writing anything.
+ * Every row is checked against the shared index item schema, the known
+ * campuses and the user's campus permissions, and flagged when it looks like
+ * a duplicate of an existing item or an earlier row in the file.
+ * @param csvText - The raw CSV text with a title,url,campus header and an optional letter column.
+ * @param user - The session user doing the import.
+ * @returns An object containing the preview rows, or an error for unreadable files.
+ */
+export async function buildImportPreview(
+  csvText: string,
+  user: Session['user']
+) {
+  try {
+    const [header, ...records] = parseCsv(csvText);
+    if (!header || records.length === 0) {
+      return { error: 'The file has no rows to import' };
+    }
+
+    const columns = header.map((name) => name.trim().toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter((name) => !columns.includes(name));
+    if (missing.length > 0) {
+      return { error: `Missing column(s): ${missing.join(', ')}` };
+    }
+
+    const { campuses, error: campusError } = await getCampuses();
+    if (campusError) throw campusError;
+
+    const existingItems = await prisma.indexitem.findMany({
+      where: { deletedAt: null },
+      select: { id: true, title: true, url: true, campus: true }
+    });
+    const seen = new Map<string, string>();
+    for (const item of existingItems) {
+      seen.set(`${item.campus}|url|${normalizeUrl(item.url)}`, item.title);
+      seen.set(
+        `${item.campus}|title|${normalizeTitle(item.title)}`,
+        item.title
+      );
+    }
+
+    const rows: ImportPreviewRow[] = records.map((record, index) => {
+      const values = Object.fromEntries(
+        IMPORT_COLUMNS.map((name) => [
+          name,
+          (record[columns.indexOf(name)] ?? '').trim()
+        ])
+      ) as IndexItemInput;
+      if (!values.letter) values.letter = deriveLetter(values.title);
+      // "Canada College" in a spreadsheet still lands on Cañada College
+      const campus = values.campus && matchCampus(campuses, values.campus);
+      if (campus) values.campus = campus.name;
+      // Header is line 1
+      const line = index + 2;
+      const errors: string[] = [];
+
+      const parsed = indexItemSchema.safeParse(values);
+      if (!parsed.success) {
+        errors.push(...parsed.error.issues.map((issue) => issue.message));
+      }
+      if (values.campus && !campus) {
+        errors.push(`Unknown campus "${values.campus}"`);
+      } else if (values.campus && !canEditCampus(user, values.campus)) {
+        errors.push(
+          `You do not have permission to edit ${values.campus} items`
+        );
+      }
+
+      const urlKey = `${values.campus}|url|${normalizeUrl(values.url)}`;
+      const titleKey = `${values.campus}|title|${normalizeTitle(values.title)}`;
+      const duplicateOf = seen.get(urlKey) ?? seen.get(titleKey);
+      if (errors.length === 0) {
+        seen.set(urlKey, `${values.title} (line ${line})`);
+        seen.set(titleKey, `${values.title} (line ${line})`);
+      }
+
+      return { ...values, line, errors, duplicateOf };
+    });
+
+    return { rows };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Inserts validated index items in a single transaction, with an audit entry for each.
+ * @param items - The rows to insert; validate them with buildImportPreview first.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @returns An object containing the created items or an error.
+ */
+export async function importIndexItems(
+  items: IndexItemInput[],
+  actor: AuditActor
+) {
+  try {
+    const importedItems = await prisma.$transaction(
+      async (tx) => {
+        const created = [];
+        for (const item of items) {
+          created.push(await createIndexItemInTx(tx, item, actor));
+        }
+        return created;
+      },
+      { timeout: IMPORT_TRANSACTION_TIMEOUT_MS }
+    );
+    return { importedItems };
+  } catch (error) {
+    return { error };
+  }
+}
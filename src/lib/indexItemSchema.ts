@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { normalizeLetter } from './letters';
+
+/**
+ * Validation rules for an index item, shared by the admin forms and CSV import.
+ * A blank letter is derived from the title when the item is saved.
+ */
+export const indexItemSchema = z.object({
+  title: z.string().min(1, { message: 'Title is required' }),
+  url: z.string().url({ message: 'URL must be valid' }),
+  // Accented letters are filed under their base letter, so "É" becomes "E"
+  letter: z
+    .string()
+    .refine((value) => value === '' || normalizeLetter(value) !== '', {
+      message: 'Letter must be a single letter or digit'
+    })
+    .transform((value) => normalizeLetter(value)),
+  extraLetters: z
+    .array(
+      z.string().regex(/^[A-Z0-9]$/, {
+        message: 'See also letters must be A-Z or 0-9'
+      })
+    )
+    .optional(),
+  aliases: z.array(z.string()).optional(),
+  keywords: z.array(z.string()).optional(),
+  campus: z.string().min(1, { message: 'Campus is required' }),
+  sharedCampuses: z.array(z.string().min(1)).optional(),
+  districtWide: z.boolean().optional()
+});
+
+export type IndexItemInput = z.infer<typeof indexItemSchema>;
+
+/**
+ * The optional fields beyond title, URL, letter and campus.
+ */
+export type IndexItemDetails = Pick<
+  IndexItemInput,
+  'extraLetters' | 'aliases' | 'keywords' | 'sharedCampuses' | 'districtWide'
+>;
+
+/**
+ * The index item schema as the JSON API takes it: the letter may be left out.
+ */
+export const indexItemApiSchema = indexItemSchema.extend({
+  letter: indexItemSchema.shape.letter.default('')
+});
+
+/**
+ * A partial update; fields left out keep their current values.
+ */
+export const indexItemPatchSchema = indexItemSchema.partial();
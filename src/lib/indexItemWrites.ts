@@ -0,0 +1,137 @@
+import type { Prisma } from '@prisma/client';
+import { recordAudit, type AuditActor } from './audit';
+import {
+  deriveLetter,
+  normalizeExtraLetters,
+  normalizeLetter
+} from './letters';
+import { normalizeTerms } from './aliases';
+import type { IndexItemInput } from './indexItemSchema';
+
+/**
+ * The fields read back when an index item is updated or deleted.
+ */
+export const INDEX_ITEM_SELECT = {
+  id: true,
+  title: true,
+  url: true,
+  letter: true,
+  extraLetters: true,
+  aliases: true,
+  keywords: true,
+  campus: true,
+  sharedCampuses: true,
+  districtWide: true
+} as const;
+
+// Drops repeats and the item's own campus
+function normalizeSharedCampuses(sharedCampuses: string[], campus: string) {
+  return Array.from(new Set(sharedCampuses)).filter(
+    (shared) => shared !== campus
+  );
+}
+
+/**
+ * Creates an index item and its audit entry inside an open transaction.
+ * @param tx - The Prisma transaction client.
+ * @param input - The new item; a blank letter is derived from the title.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @returns The created item.
+ */
+export async function createIndexItemInTx(
+  tx: Prisma.TransactionClient,
+  input: IndexItemInput,
+  actor: AuditActor
+) {
+  const primaryLetter =
+    normalizeLetter(input.letter) || deriveLetter(input.title);
+  const created = await tx.indexitem.create({
+    data: {
+      title: input.title,
+      url: input.url,
+      letter: primaryLetter,
+      extraLetters: normalizeExtraLetters(
+        input.extraLetters ?? [],
+        primaryLetter
+      ),
+      aliases: normalizeTerms(input.aliases ?? []),
+      keywords: normalizeTerms(input.keywords ?? []),
+      campus: input.campus,
+      sharedCampuses: normalizeSharedCampuses(
+        input.sharedCampuses ?? [],
+        input.campus
+      ),
+      districtWide: input.districtWide ?? false
+    }
+  });
+  await recordAudit(tx, 'CREATE', created.id, actor, undefined, created);
+  return created;
+}
+
+/**
+ * Updates an index item and records the change inside an open transaction.
+ * Throws a Prisma not-found error when the item is missing or in the trash.
+ * @param tx - The Prisma transaction client.
+ * @param id - The ID of the index item to update.
+ * @param input - The new values; "see also" letters, aliases, keywords and sharing left out stay unchanged.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @returns The updated item.
+ */
+export async function updateIndexItemInTx(
+  tx: Prisma.TransactionClient,
+  id: string,
+  input: IndexItemInput,
+  actor: AuditActor
+) {
+  const primaryLetter =
+    normalizeLetter(input.letter) || deriveLetter(input.title);
+  const before = await tx.indexitem.findUniqueOrThrow({
+    where: { id, deletedAt: null },
+    select: INDEX_ITEM_SELECT
+  });
+  const after = await tx.indexitem.update({
+    where: { id },
+    data: {
+      title: input.title,
+      url: input.url,
+      letter: primaryLetter,
+      extraLetters: normalizeExtraLetters(
+        input.extraLetters ?? before.extraLetters,
+        primaryLetter
+      ),
+      aliases: input.aliases && normalizeTerms(input.aliases),
+      keywords: input.keywords && normalizeTerms(input.keywords),
+      campus: input.campus,
+      sharedCampuses: normalizeSharedCampuses(
+        input.sharedCampuses ?? before.sharedCampuses,
+        input.campus
+      ),
+      districtWide: input.districtWide
+    },
+    select: INDEX_ITEM_SELECT
+  });
+  await recordAudit(tx, 'UPDATE', id, actor, before, after);
+  return after;
+}
+
+/**
+ * Moves an index item to the trash inside an open transaction.
+ * Throws a Prisma not-found error when the item is missing or already deleted.
+ * @param tx - The Prisma transaction client.
+ * @param id - The ID of the index item to delete.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @returns The deleted item.
+ */
+export async function deleteIndexItemInTx(
+  tx: Prisma.TransactionClient,
+  id: string,
+  actor: AuditActor
+) {
+  const deleted = await tx.indexitem.update({
+    where: { id, deletedAt: null },
+    data: { deletedAt: new Date() },
+    select: INDEX_ITEM_SELECT
+  });
+  await recordAudit(tx, 'DELETE', id, actor, deleted);
+  return deleted;
+}
@@ -1,15 +1,29 @@
-'use server';
 import prisma from './prisma';
+import type { AuditActor } from './audit';
+import {
+  createIndexItemInTx,
+  deleteIndexItemInTx,
+  updateIndexItemInTx
+} from './indexItemWrites';
+import { rankedSearch } from './search';
+import { listedOnCampus } from './campuses';
+import type { IndexItemDetails } from './indexItemSchema';
 
 export async function getIndexItems() {
   try {
     const indexItems = await prisma.indexitem.findMany({
+      where: { deletedAt: null },
       select: {
         id: true,
         title: true,
         url: true,
         letter: true,
-        campus: true
+        extraLetters: true,
+        aliases: true,
+        keywords: true,
+        campus: true,
+        sharedCampuses: true,
+        districtWide: true
       }
     });
     return { indexItems };
@@ -19,40 +33,40 @@ export async function getIndexItems() {
 }
 
 /**
- * Searches for index items based on a query.
+ * Searches for index items based on a query, most relevant first.
+ * Titles, aliases and keywords are matched with full-text search, and titles
+ * also by similarity so small typos still find results. A blank query lists
+ * every item alphabetically.
  * @param query - The search query.
+ * @param campus - Optional campus filter; items shared with it and district-wide items match too.
+ * @param limit - Optional cap on the number of ranked matches; every match by default.
  * @returns An object containing the search results or an error.
  */
-export async function searchIndexItems(query: string, campus?: string) {
+export async function searchIndexItems(
+  query: string,
+  campus?: string,
+  limit?: number
+) {
   try {
-    const conditions: any = [
-      {
-        title: {
-          contains: query,
-          mode: 'insensitive'
-        }
-      }
-    ];
-
-    if (campus) {
-      conditions.push({
-        campus: {
-          equals: campus,
-          mode: 'insensitive'
-        }
-      });
+    if (query.trim()) {
+      const results = await rankedSearch(query, { campus, limit });
+      return { results };
     }
 
     const results = await prisma.indexitem.findMany({
       where: {
-        AND: conditions
+        deletedAt: null,
+        ...(campus ? { AND: [listedOnCampus(campus)] } : {})
       },
       select: {
         id: true,
         title: true,
         url: true,
         letter: true,
-        campus: true
+        extraLetters: true,
+        campus: true,
+        sharedCampuses: true,
+        districtWide: true
       },
       orderBy: { title: 'asc' }
     });
@@ -77,7 +91,12 @@ export async function getIndexItemById(id: string) {
         title: true,
         url: true,
         letter: true,
-        campus: true
+        extraLetters: true,
+        aliases: true,
+        keywords: true,
+        campus: true,
+        sharedCampuses: true,
+        districtWide: true
       }
     });
 
@@ -91,25 +110,24 @@ export async function getIndexItemById(id: string) {
  * Creates a new index item.
  * @param title - The title of the index item.
  * @param url - The URL of the index item.
- * @param letter - The letter of the index item.
+ * @param letter - The letter of the index item; derived from the title when blank.
  * @param campus - The campus of the index item.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @param details - Optional "see also" letters, aliases, search keywords and sharing.
  * @returns An object containing the newly created index item or an error object.
  */
 export async function createIndexItem(
   title: string,
   url: string,
   letter: string,
-  campus: string
+  campus: string,
+  actor: AuditActor,
+  details: IndexItemDetails = {}
 ) {
   try {
-    const newIndexItem = await prisma.indexitem.create({
-      data: {
-        title: title,
-        url: url,
-        letter: letter,
-        campus: campus
-      }
-    });
+    const newIndexItem = await prisma.$transaction((tx) =>
+      createIndexItemInTx(tx, { title, url, letter, campus, ...details }, actor)
+    );
     return { newIndexItem };
   } catch (error) {
     return { error };
@@ -122,8 +140,10 @@ export async function createIndexItem(
  * @param id - The ID of the index item to update.
  * @param title - The new title for the index item.
  * @param url - The new URL for the index item.
- * @param letter - The new letter for the index item.
+ * @param letter - The new letter for the index item; derived from the title when blank.
  * @param campus - The new campus for the index item.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @param details - The new "see also" letters, aliases, keywords and sharing; any left out stay unchanged.
  * @returns An object containing the updated index item if successful, or an error object if an error occurred.
  */
 export async function updateIndexItem(
@@ -131,25 +151,19 @@ export async function updateIndexItem(
   title: string,
   url: string,
   letter: string,
-  campus: string
+  campus: string,
+  actor: AuditActor,
+  details: IndexItemDetails = {}
 ) {
   try {
-    const updatedItem = await prisma.indexitem.update({
-      where: { id },
-      data: {
-        title: title,
-        url: url,
-        letter: letter,
-        campus: campus
-      },
-      select: {
-        id: true,
-        title: true,
-        url: true,
-        letter: true,
-        campus: true
-      }
-    });
+    const updatedItem = await prisma.$transaction((tx) =>
+      updateIndexItemInTx(
+        tx,
+        id,
+        { title, url, letter, campus, ...details },
+        actor
+      )
+    );
     return { updatedItem };
   } catch (error) {
     return { error };
@@ -157,22 +171,17 @@ export async function updateIndexItem(
 }
 
 /**
- * Deletes an index item with the specified ID.
+ * Moves an index item to the trash. It stays out of public queries until it is
+ * restored, and can be purged for good once the retention period has passed.
  * @param id - The ID of the index item to delete.
+ * @param actor - Who is making the change, recorded in the audit log.
  * @returns A promise that resolves to an object containing the deleted item or an error.
  */
-export async function deleteIndexItem(id: string) {
+export async function deleteIndexItem(id: string, actor: AuditActor) {
   try {
-    const deletedItem = await prisma.indexitem.delete({
-      where: { id: id },
-      select: {
-        id: true,
-        title: true,
-        url: true,
-        letter: true,
-        campus: true
-      }
-    });
+    const deletedItem = await prisma.$transaction((tx) =>
+      deleteIndexItemInTx(tx, id, actor)
+    );
     return { deletedItem };
   } catch (error) {
     console.error('Error in deleteIndexItem:', error);
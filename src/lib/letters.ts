@@ -0,0 +1,56 @@
+/**
+ * Every index letter, in display order. Titles starting with a digit are
+ * filed under that digit.
+ */
+export const INDEX_LETTERS = [
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''),
+  ...'0123456789'.split('')
+];
+
+// Leading articles that are ignored when filing a title
+const LEADING_ARTICLE = /^(the|an|a)\s+(?=\S)/i;
+
+/**
+ * Normalizes a letter to its index form: uppercase with accents removed,
+ * so "ñ" becomes "N".
+ * @param letter - The letter to normalize.
+ * @returns The index letter, or an empty string if it is not a letter or digit.
+ */
+export function normalizeLetter(letter: string) {
+  const normalized = letter
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase();
+  return INDEX_LETTERS.includes(normalized) ? normalized : '';
+}
+
+/**
+ * Works out which letter a title is filed under: the first letter or digit
+ * after any leading "The", "A" or "An".
+ * @param title - The index item title.
+ * @returns The index letter, or an empty string for titles without one.
+ */
+export function deriveLetter(title: string) {
+  const trimmed = title.trim().replace(LEADING_ARTICLE, '');
+  for (const char of Array.from(trimmed)) {
+    const letter = normalizeLetter(char);
+    if (letter) return letter;
+  }
+  return '';
+}
+
+/**
+ * Cleans up a list of "see also" letters: normalized, unique, in index order
+ * and without the item's primary letter.
+ * @param letters - The extra letters to clean up.
+ * @param primaryLetter - The letter the item is already filed under.
+ */
+export function normalizeExtraLetters(
+  letters: string[],
+  primaryLetter: string
+) {
+  const normalized = letters.map(normalizeLetter);
+  return INDEX_LETTERS.filter(
+    (letter) => letter !== primaryLetter && normalized.includes(letter)
+  );
+}
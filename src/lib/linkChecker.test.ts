@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { checkLink, type LinkFetcher } from './linkChecker';
+
+interface StubResponse {
+  status: number;
+  location?: string;
+}
+
+/**
+ * Answers each request from a table keyed by "METHOD url", recording the
+ * requests made. Missing entries fail the test.
+ */
+function stubFetcher(routes: Record<string, StubResponse>) {
+  const requests: string[] = [];
+  const fetcher: LinkFetcher = async (url, init) => {
+    const key = `${init.method} ${url}`;
+    requests.push(key);
+    const route = routes[key];
+    if (!route) throw new Error(`Unexpected request: ${key}`);
+    return new Response(null, {
+      status: route.status,
+      headers: route.location ? { location: route.location } : {}
+    });
+  };
+  return { fetcher, requests };
+}
+
+describe('checkLink', () => {
+  it('reports a working link from HEAD alone', async () => {
+    const { fetcher, requests } = stubFetcher({
+      'HEAD https://example.edu/': { status: 200 }
+    });
+
+    const result = await checkLink('https://example.edu/', { fetcher });
+
+    expect(result).toMatchObject({
+      status: 200,
+      isBroken: false,
+      error: null,
+      redirectUrl: null
+    });
+    expect(requests).toEqual(['HEAD https://example.edu/']);
+  });
+
+  it.each([403, 404, 405, 501])(
+    'retries with GET when HEAD gets a %i',
+    async (status) => {
+      const { fetcher, requests } = stubFetcher({
+        'HEAD https://example.edu/': { status },
+        'GET https://example.edu/': { status: 200 }
+      });
+
+      const result = await checkLink('https://example.edu/', { fetcher });
+
+      expect(result).toMatchObject({ status: 200, isBroken: false });
+      expect(requests).toEqual([
+        'HEAD https://example.edu/',
+        'GET https://example.edu/'
+      ]);
+    }
+  );
+
+  it('marks a link broken when GET fails too', async () => {
+    const { fetcher } = stubFetcher({
+      'HEAD https://example.edu/gone': { status: 404 },
+      'GET https://example.edu/gone': { status: 404 }
+    });
+
+    const result = await checkLink('https://example.edu/gone', { fetcher });
+
+    expect(result).toMatchObject({ status: 404, isBroken: true, error: null });
+  });
+
+  it('does not retry a server error from HEAD', async () => {
+    const { fetcher, requests } = stubFetcher({
+      'HEAD https://example.edu/': { status: 500 }
+    });
+
+    const result = await checkLink('https://example.edu/', { fetcher });
+
+    expect(result).toMatchObject({ status: 500, isBroken: true });
+    expect(requests).toEqual(['HEAD https://example.edu/']);
+  });
+
+  it('follows permanent redirects and records the target', async () => {
+    const { fetcher } = stubFetcher({
+      'HEAD http://example.edu/old': {
+        status: 301,
+        location: 'https://example.edu/old'
+      },
+      'HEAD https://example.edu/old': { status: 308, location: '/new' },
+      'HEAD https://example.edu/new': { status: 200 }
+    });
+
+    const result = await checkLink('http://example.edu/old', { fetcher });
+
+    expect(result).toMatchObject({
+      status: 200,
+      isBroken: false,
+      redirectCount: 2,
+      redirectUrl: 'https://example.edu/new',
+      permanentRedirectUrl: 'https://example.edu/new'
+    });
+  });
+
+  it('suggests no fix when a redirect along the way is temporary', async () => {
+    const { fetcher } = stubFetcher({
+      'HEAD https://example.edu/a': { status: 302, location: '/b' },
+      'HEAD https://example.edu/b': { status: 200 }
+    });
+
+    const result = await checkLink('https://example.edu/a', { fetcher });
+
+    expect(result).toMatchObject({
+      redirectUrl: 'https://example.edu/b',
+      permanentRedirectUrl: null
+    });
+  });
+
+  it('detects redirect loops', async () => {
+    const { fetcher } = stubFetcher({
+      'HEAD https://example.edu/a': { status: 301, location: '/b' },
+      'HEAD https://example.edu/b': { status: 301, location: '/a' }
+    });
+
+    const result = await checkLink('https://example.edu/a', { fetcher });
+
+    expect(result).toMatchObject({ error: 'redirect_loop', isBroken: true });
+  });
+
+  it('stops after the redirect limit', async () => {
+    const { fetcher } = stubFetcher({
+      'HEAD https://example.edu/1': { status: 301, location: '/2' },
+      'HEAD https://example.edu/2': { status: 301, location: '/3' },
+      'HEAD https://example.edu/3': { status: 301, location: '/4' }
+    });
+
+    const result = await checkLink('https://example.edu/1', {
+      fetcher,
+      maxRedirects: 2
+    });
+
+    expect(result).toMatchObject({
+      error: 'too_many_redirects',
+      isBroken: true,
+      redirectCount: 2
+    });
+  });
+
+  it('reports a timeout when the request is aborted', async () => {
+    const fetcher: LinkFetcher = (url, init) =>
+      new Promise((resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      });
+
+    const result = await checkLink('https://example.edu/', {
+      fetcher,
+      timeoutMs: 10
+    });
+
+    expect(result).toMatchObject({
+      status: null,
+      error: 'timeout',
+      isBroken: true
+    });
+  });
+
+  it('reports a network error when the request fails', async () => {
+    const fetcher: LinkFetcher = async () => {
+      throw new TypeError('fetch failed');
+    };
+
+    const result = await checkLink('https://example.edu/', { fetcher });
+
+    expect(result).toMatchObject({ error: 'network_error', isBroken: true });
+  });
+});
@@ -0,0 +1,270 @@
+import prisma from './prisma';
+
+/**
+ * Performs a single HTTP request for the link checker. Defaults to the global
+ * fetch; tests can pass one that targets a local stub server.
+ */
+export type LinkFetcher = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface LinkCheckOptions {
+  fetcher?: LinkFetcher;
+  timeoutMs?: number;
+  maxRedirects?: number;
+}
+
+export interface LinkCheckResult {
+  url: string;
+  status: number | null;
+  redirectUrl: string | null;
+  redirectCount: number;
+  permanentRedirectUrl: string | null;
+  responseTimeMs: number;
+  error: LinkCheckError | null;
+  isBroken: boolean;
+}
+
+export type LinkCheckError =
+  'timeout' | 'redirect_loop' | 'too_many_redirects' | 'network_error';
+
+export const LINK_CHECK_ERROR_LABELS: Record<LinkCheckError, string> = {
+  timeout: 'Timed out',
+  redirect_loop: 'Redirect loop',
+  too_many_redirects: 'Too many redirects',
+  network_error: 'Network error'
+};
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_MAX_REDIRECTS = 10;
+// Checks per cron run; the oldest checks are refreshed first
+const LINK_CHECK_BATCH_SIZE = 200;
+const LINK_CHECK_CONCURRENCY = 5;
+const USER_AGENT = 'SMCCD Site Index Link Checker';
+// Consecutive checks that must agree on a permanent redirect before suggesting a fix
+const REDIRECT_SUGGESTION_MIN_STREAK = 2;
+const PERMANENT_REDIRECT_STATUSES = [301, 308];
+
+async function request(
+  fetcher: LinkFetcher,
+  url: string,
+  method: 'HEAD' | 'GET',
+  timeoutMs: number
+) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetcher(url, {
+      method,
+      redirect: 'manual',
+      signal: controller.signal,
+      headers: { 'User-Agent': USER_AGENT },
+      cache: 'no-store'
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Plenty of servers answer HEAD with a 4xx (403, 404, ...) while serving GET
+// fine, so only a GET failure counts as broken
+function rejectsHead(status: number) {
+  return (status >= 400 && status < 500) || status === 501;
+}
+
+/**
+ * Requests a URL, following redirects by hand so loops and targets can be recorded.
+ * Uses HEAD and retries with GET when HEAD gets a 4xx or 501.
+ * @param url - The URL to check.
+ * @param options - Optional fetcher, timeout and redirect limit.
+ * @returns The final status, redirect target, timing and any error.
+ */
+export async function checkLink(
+  url: string,
+  options: LinkCheckOptions = {}
+): Promise<LinkCheckResult> {
+  const fetcher = options.fetcher ?? fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const started = Date.now();
+  const visited = new Set<string>();
+  let currentUrl = url;
+  let redirectCount = 0;
+  let allPermanent = true;
+
+  const result = (
+    status: number | null,
+    error: LinkCheckError | null
+  ): LinkCheckResult => {
+    const isBroken = error !== null || status === null || status >= 400;
+    return {
+      url,
+      status,
+      redirectUrl: redirectCount > 0 ? currentUrl : null,
+      redirectCount,
+      permanentRedirectUrl:
+        redirectCount > 0 && allPermanent && !isBroken ? currentUrl : null,
+      responseTimeMs: Date.now() - started,
+      error,
+      isBroken
+    };
+  };
+
+  try {
+    while (true) {
+      visited.add(currentUrl);
+      let response = await request(fetcher, currentUrl, 'HEAD', timeoutMs);
+      if (rejectsHead(response.status)) {
+        response = await request(fetcher, currentUrl, 'GET', timeoutMs);
+      }
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return result(response.status, null);
+      }
+
+      const nextUrl = new URL(location, currentUrl).toString();
+      if (visited.has(nextUrl)) {
+        currentUrl = nextUrl;
+        return result(response.status, 'redirect_loop');
+      }
+      if (redirectCount >= maxRedirects) {
+        return result(response.status, 'too_many_redirects');
+      }
+      redirectCount++;
+      allPermanent &&= PERMANENT_REDIRECT_STATUSES.includes(response.status);
+      currentUrl = nextUrl;
+    }
+  } catch (error) {
+    const isTimeout = error instanceof Error && error.name === 'AbortError';
+    return result(null, isTimeout ? 'timeout' : 'network_error');
+  }
+}
+
+/**
+ * Checks a batch of index item URLs and stores the latest result for each.
+ * Items never checked, then those checked longest ago, go first.
+ * @param options - Optional fetcher, timeout and redirect limit.
+ * @returns An object containing the number of links checked and found broken, or an error.
+ */
+export async function runLinkChecks(options: LinkCheckOptions = {}) {
+  try {
+    const items = await prisma.indexitem.findMany({
+      where: { deletedAt: null },
+      select: {
+        id: true,
+        url: true,
+        linkCheck: {
+          select: {
+            checkedAt: true,
+            url: true,
+            permanentRedirectUrl: true,
+            redirectStreak: true
+          }
+        }
+      }
+    });
+    const batch = items
+      .sort(
+        (a, b) =>
+          (a.linkCheck?.checkedAt.getTime() ?? 0) -
+          (b.linkCheck?.checkedAt.getTime() ?? 0)
+      )
+      .slice(0, LINK_CHECK_BATCH_SIZE);
+
+    let brokenCount = 0;
+    for (let i = 0; i < batch.length; i += LINK_CHECK_CONCURRENCY) {
+      const chunk = batch.slice(i, i + LINK_CHECK_CONCURRENCY);
+      const results = await Promise.all(
+        chunk.map((item) => checkLink(item.url, options))
+      );
+      await prisma.$transaction(
+        chunk.map((item, index) => {
+          const { url, ...check } = results[index];
+          const previous = item.linkCheck;
+          const redirectStreak = !check.permanentRedirectUrl
+            ? 0
+            : previous?.url === url &&
+                previous.permanentRedirectUrl === check.permanentRedirectUrl
+              ? previous.redirectStreak + 1
+              : 1;
+          const data = { ...check, url, redirectStreak, checkedAt: new Date() };
+          return prisma.linkcheck.upsert({
+            where: { itemId: item.id },
+            create: { itemId: item.id, ...data },
+            update: data
+          });
+        })
+      );
+      brokenCount += results.filter((check) => check.isBroken).length;
+    }
+
+    return { checkedCount: batch.length, brokenCount };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Retrieves the broken links among live index items, with per-campus counts.
+ * Results for URLs that have since been edited are left out until rechecked.
+ * @returns An object containing the broken links and campus counts, or an error.
+ */
+export async function getBrokenLinkReport() {
+  try {
+    const checks = await prisma.linkcheck.findMany({
+      where: { isBroken: true, item: { deletedAt: null } },
+      include: {
+        item: { select: { id: true, title: true, url: true, campus: true } }
+      },
+      orderBy: [{ item: { campus: 'asc' } }, { item: { title: 'asc' } }]
+    });
+    const brokenLinks = checks.filter((check) => check.url === check.item.url);
+
+    const campusCounts: Record<string, number> = {};
+    for (const check of brokenLinks) {
+      campusCounts[check.item.campus] =
+        (campusCounts[check.item.campus] ?? 0) + 1;
+    }
+    const checkedCount = await prisma.linkcheck.count({
+      where: { item: { deletedAt: null } }
+    });
+
+    return { brokenLinks, campusCounts, checkedCount };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Retrieves live index items whose URL has permanently redirected to the same
+ * place on several checks in a row, as suggested URL fixes.
+ * @returns An object containing the suggestions or an error.
+ */
+export async function getRedirectSuggestions() {
+  try {
+    const checks = await prisma.linkcheck.findMany({
+      where: {
+        permanentRedirectUrl: { not: null },
+        redirectStreak: { gte: REDIRECT_SUGGESTION_MIN_STREAK },
+        item: { deletedAt: null }
+      },
+      include: {
+        item: { select: { id: true, title: true, url: true, campus: true } }
+      },
+      orderBy: [{ item: { campus: 'asc' } }, { item: { title: 'asc' } }]
+    });
+    const suggestions = checks
+      .filter((check) => check.url === check.item.url)
+      .map((check) => ({
+        itemId: check.item.id,
+        title: check.item.title,
+        campus: check.item.campus,
+        oldUrl: check.item.url,
+        newUrl: check.permanentRedirectUrl,
+        redirectCount: check.redirectCount,
+        checkedAt: check.checkedAt
+      }));
+    return { suggestions };
+  } catch (error) {
+    return { error };
+  }
+}
@@ -0,0 +1,86 @@
+import { withAliasEntries, type IndexEntry } from './aliases';
+import { INDEX_LETTERS } from './letters';
+
+/**
+ * An index item as read for the public A-Z pages.
+ */
+export interface ListingItem {
+  id: string;
+  title: string;
+  url: string;
+  letter: string;
+  extraLetters: string[];
+  aliases: string[];
+  campus: string;
+  sharedCampuses: string[];
+  districtWide: boolean;
+}
+
+/**
+ * The entries filed under one letter, alias entries included.
+ */
+export interface LetterGroup {
+  letter: string;
+  entries: IndexEntry[];
+}
+
+/**
+ * Checks whether a campus lists an entry: it belongs to the campus, is shared
+ * with it or is district-wide.
+ * @param entry - The entry to check.
+ * @param campus - The campus name.
+ */
+export function isListedOn(
+  entry: Pick<IndexEntry, 'campus' | 'sharedCampuses' | 'districtWide'>,
+  campus: string
+) {
+  return (
+    entry.districtWide ||
+    entry.campus === campus ||
+    (entry.sharedCampuses ?? []).includes(campus)
+  );
+}
+
+/**
+ * Files items under every index letter: their own letter, their "see also"
+ * letters and an alias entry under each alias's letter.
+ * @param items - The live items, in any order.
+ * @returns A group for each letter in INDEX_LETTERS, empty ones included.
+ */
+export function groupByLetter(items: ListingItem[]): LetterGroup[] {
+  return INDEX_LETTERS.map((letter) => ({
+    letter,
+    entries: withAliasEntries(
+      items.filter(
+        (item) => item.letter === letter || item.extraLetters.includes(letter)
+      ),
+      items,
+      letter
+    ).map((entry) => ({
+      id: entry.id,
+      title: entry.title,
+      url: entry.url,
+      letter: entry.letter,
+      campus: entry.campus,
+      sharedCampuses: entry.sharedCampuses,
+      districtWide: entry.districtWide,
+      ...('aliasOf' in entry ? { aliasOf: entry.aliasOf } : {})
+    }))
+  }));
+}
+
+/**
+ * Counts the entries under each letter, optionally for one campus.
+ * @param groups - The letter groups from groupByLetter().
+ * @param campus - Only count entries this campus lists.
+ * @returns The count for each letter.
+ */
+export function countByLetter(groups: LetterGroup[], campus?: string) {
+  const counts: Record<string, number> = {};
+  groups.forEach((group) => {
+    counts[group.letter] = campus
+      ? group.entries.filter((entry) => isListedOn(entry, campus)).length
+      : group.entries.length;
+  });
+  return counts;
+}
@@ -0,0 +1,230 @@
+import {
+  V1_DEFAULT_LIMIT,
+  V1_FIELDS,
+  V1_MAX_LIMIT,
+  V1_SEARCH_FIELDS,
+  V1_SORTS
+} from './apiV1';
+import { INDEX_LETTERS } from './letters';
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    'application/json': { schema: { $ref: '#/components/schemas/Error' } }
+  }
+});
+
+/**
+ * The OpenAPI 3 description of the v1 public API.
+ * Built from the same constants the handlers validate against, so the two
+ * cannot drift apart.
+ */
+export const openApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'SMCCCD Site Index API',
+    version: '1.0.0',
+    description:
+      'Read-only access to the A-Z site index for the district and its colleges. ' +
+      'Fields and parameters are only ever added within v1; anything that ' +
+      'breaks existing clients goes into a new version.'
+  },
+  servers: [{ url: '/api/v1' }],
+  paths: {
+    '/indexItems': {
+      get: {
+        operationId: 'listIndexItems',
+        summary: 'List index items',
+        description:
+          'Returns one page of index items. Follow `links.next` (or pass ' +
+          '`meta.nextCursor` as `cursor`) until it is null to read the rest.',
+        parameters: [
+          {
+            name: 'campus',
+            in: 'query',
+            description:
+              'Only items listed on this campus, by name or slug, e.g. "Skyline College" or "skyline". Case and accents are ignored. ' +
+              'Includes items shared with the campus and district-wide items.',
+            schema: { type: 'string' }
+          },
+          {
+            name: 'letter',
+            in: 'query',
+            description:
+              'Only items listed under this letter, including "see also" letters.',
+            schema: { type: 'string', enum: INDEX_LETTERS }
+          },
+          {
+            name: 'search',
+            in: 'query',
+            description:
+              'Full-text search over titles, aliases and keywords, tolerant of small typos.',
+            schema: { type: 'string' }
+          },
+          {
+            name: 'fields',
+            in: 'query',
+            description: `Comma-separated fields to return. ${V1_SEARCH_FIELDS.join(
+              ' and '
+            )} are only available with search. Defaults to every available field.`,
+            schema: { type: 'string', example: 'id,title,url' }
+          },
+          {
+            name: 'sort',
+            in: 'query',
+            description:
+              'Sort order; a leading "-" sorts descending. Defaults to relevance ' +
+              'with search and title otherwise.',
+            schema: { type: 'string', enum: V1_SORTS }
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            schema: {
+              type: 'integer',
+              minimum: 1,
+              maximum: V1_MAX_LIMIT,
+              default: V1_DEFAULT_LIMIT
+            }
+          },
+          {
+            name: 'cursor',
+            in: 'query',
+            description: 'Opaque cursor from a previous page.',
+            schema: { type: 'string' }
+          }
+        ],
+        responses: {
+          '200': {
+            description: 'A page of index items',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/IndexItemList' }
+              }
+            }
+          },
+          '400': errorResponse('A query parameter is invalid'),
+          '401': errorResponse('The API key is invalid or expired'),
+          '403': errorResponse(
+            'The client is blocked or the API key lacks the read scope'
+          ),
+          '429': errorResponse('Too many requests'),
+          '500': errorResponse('Server error')
+        }
+      }
+    }
+  },
+  // Anonymous access works too; a key lifts the user-agent checks and rate limit
+  security: [{}, { apiKey: [] }],
+  components: {
+    securitySchemes: {
+      apiKey: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'An API key issued by a district admin'
+      }
+    },
+    schemas: {
+      IndexItem: {
+        type: 'object',
+        description: `Only the requested fields are present. Available: ${[
+          ...V1_FIELDS,
+          ...V1_SEARCH_FIELDS
+        ].join(', ')}.`,
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          title: { type: 'string' },
+          url: { type: 'string', format: 'uri' },
+          letter: { type: 'string', enum: INDEX_LETTERS },
+          extraLetters: {
+            type: 'array',
+            items: { type: 'string', enum: INDEX_LETTERS }
+          },
+          aliases: { type: 'array', items: { type: 'string' } },
+          campus: {
+            type: 'string',
+            description: 'The campus the item belongs to.'
+          },
+          sharedCampuses: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Other campuses whose listings show the item.'
+          },
+          districtWide: {
+            type: 'boolean',
+            description: 'Whether every campus lists the item.'
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+          score: {
+            type: 'number',
+            description: 'Search relevance; higher is better.'
+          },
+          highlight: {
+            type: 'string',
+            description:
+              'The HTML-escaped title with matched terms wrapped in <mark>.'
+          }
+        }
+      },
+      IndexItemList: {
+        type: 'object',
+        required: ['data', 'meta', 'links'],
+        properties: {
+          data: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/IndexItem' }
+          },
+          meta: {
+            type: 'object',
+            required: ['total', 'count', 'limit', 'sort', 'nextCursor'],
+            properties: {
+              total: {
+                type: 'integer',
+                description: 'Items matching the filters across all pages.'
+              },
+              count: { type: 'integer', description: 'Items on this page.' },
+              limit: { type: 'integer' },
+              sort: { type: 'string', enum: V1_SORTS },
+              nextCursor: { type: 'string', nullable: true }
+            }
+          },
+          links: {
+            type: 'object',
+            required: ['self', 'next'],
+            properties: {
+              self: { type: 'string', format: 'uri' },
+              next: { type: 'string', format: 'uri', nullable: true }
+            }
+          }
+        }
+      },
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: {
+            type: 'object',
+            required: ['code', 'message'],
+            properties: {
+              code: { type: 'string' },
+              message: { type: 'string' },
+              fields: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['field', 'code', 'message'],
+                  properties: {
+                    field: { type: 'string' },
+                    code: { type: 'string' },
+                    message: { type: 'string' }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,73 @@
+import type { NextRequest } from 'next/server';
+import { verifyApiKey } from './apiKeys';
+import { getClientIp, getRequestApiKey, isTrustedOrigin } from './requestInfo';
+
+const isDev = process.env.NODE_ENV === 'development';
+
+// Outdated or scripted clients
+const BLOCKED_USER_AGENTS = [
+  'MSIE 7.0',
+  'Windows NT 5.1',
+  'MSIE 6.0',
+  'Windows NT 5.0',
+  'Mozilla/4.0',
+  'curl',
+  'wget',
+  'python-requests',
+  'httpclient',
+  'libwww-perl',
+  'Go-http-client',
+  'Java/',
+  'Apache-HttpClient',
+  'Scrapy',
+  'bot',
+  'crawler',
+  'spider'
+];
+
+/**
+ * CORS headers for a public GET response.
+ * @param req - The incoming request.
+ */
+export function corsHeaders(req: NextRequest) {
+  return {
+    'Access-Control-Allow-Origin': isTrustedOrigin(req)
+      ? req.headers.get('origin')
+      : '*',
+    'Access-Control-Allow-Methods': 'GET',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Expose-Headers':
+      'RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After'
+  };
+}
+
+/**
+ * Applies the user-agent blocklist to an anonymous read. Requests with a
+ * valid read-scoped API key or from a trusted origin skip it. Rate limits
+ * are applied by the middleware; see `rateLimit.ts`.
+ * @param req - The incoming request.
+ * @returns An empty object when the request may continue, or an error with its HTTP status.
+ */
+export async function guardPublicRequest(req: NextRequest) {
+  const token = getRequestApiKey(req);
+  if (token) {
+    const { error, status } = await verifyApiKey(token, 'READ');
+    if (error) return { error, status };
+    return {};
+  }
+
+  const userAgent = req.headers.get('user-agent') || '';
+  const ip = getClientIp(req);
+
+  // Skip user-agent checks for trusted origins
+  if (
+    !isTrustedOrigin(req) &&
+    (!userAgent ||
+      BLOCKED_USER_AGENTS.some((ua) => userAgent.toLowerCase().includes(ua)))
+  ) {
+    if (isDev) console.log(`Blocked IP: ${ip}, User-Agent: ${userAgent}`);
+    return { error: 'Blocked User-Agent', status: 403 };
+  }
+
+  return {};
+}
@@ -0,0 +1,42 @@
+import prisma from './prisma';
+import { getCampuses } from './campuses';
+import { countByLetter, groupByLetter } from './listing';
+
+/**
+ * Reads everything the public A-Z pages show: every letter group, the active
+ * campuses with their colors, and per-letter counts for the whole index
+ * (keyed by '') and for each campus (keyed by slug), so the pages can be
+ * built statically and switch campus in the browser.
+ * @returns An object containing the groups, campuses and counts, or an error.
+ */
+export async function getPublicIndex() {
+  try {
+    const { campuses, error } = await getCampuses();
+    if (error) throw error;
+    const items = await prisma.indexitem.findMany({
+      where: { deletedAt: null },
+      select: {
+        id: true,
+        title: true,
+        url: true,
+        letter: true,
+        extraLetters: true,
+        aliases: true,
+        campus: true,
+        sharedCampuses: true,
+        districtWide: true
+      }
+    });
+
+    const groups = groupByLetter(items);
+    const counts: Record<string, Record<string, number>> = {
+      '': countByLetter(groups)
+    };
+    campuses.forEach((campus) => {
+      counts[campus.slug] = countByLetter(groups, campus.name);
+    });
+    return { groups, campuses, counts };
+  } catch (error) {
+    return { error };
+  }
+}
@@ -0,0 +1,160 @@
+import { getToken } from 'next-auth/jwt';
+import type { NextRequest } from 'next/server';
+import { createRateLimiter, type RateLimiter } from './store';
+import { isActiveApiKey } from './apiKeys';
+import { hasRole } from './roles';
+import { getClientIp, getRequestApiKey, isTrustedOrigin } from './requestInfo';
+
+/**
+ * Parts of the site that are limited separately.
+ */
+export type RouteGroup = 'apiRead' | 'apiWrite' | 'suggest' | 'admin';
+
+/**
+ * Who is calling, from least to most trusted.
+ */
+export type ClientTier = 'anonymous' | 'trustedOrigin' | 'apiKey' | 'admin';
+
+export interface RateLimitPolicy {
+  requests: number;
+  windowSeconds: number;
+}
+
+/**
+ * Requests allowed per window, by route group and caller. Anonymous callers
+ * and trusted origins are counted per IP, API keys per key and signed-in
+ * admins per account. A tier missing from a group falls back to anonymous.
+ */
+export const RATE_LIMIT_POLICIES: Record<
+  RouteGroup,
+  Partial<Record<ClientTier, RateLimitPolicy>> & {
+    anonymous: RateLimitPolicy;
+  }
+> = {
+  apiRead: {
+    anonymous: { requests: 5, windowSeconds: 10 },
+    trustedOrigin: { requests: 30, windowSeconds: 10 },
+    apiKey: { requests: 100, windowSeconds: 10 },
+    admin: { requests: 100, windowSeconds: 10 }
+  },
+  apiWrite: {
+    anonymous: { requests: 5, windowSeconds: 10 },
+    apiKey: { requests: 30, windowSeconds: 10 },
+    // Room for bulk editing and imports
+    admin: { requests: 120, windowSeconds: 10 }
+  },
+  // One request per pause in typing in the public search box
+  suggest: {
+    anonymous: { requests: 30, windowSeconds: 10 },
+    trustedOrigin: { requests: 60, windowSeconds: 10 },
+    apiKey: { requests: 100, windowSeconds: 10 },
+    admin: { requests: 100, windowSeconds: 10 }
+  },
+  admin: {
+    anonymous: { requests: 20, windowSeconds: 30 },
+    admin: { requests: 300, windowSeconds: 30 }
+  }
+};
+
+const limiters = new Map<string, RateLimiter>();
+
+function getLimiter(
+  group: RouteGroup,
+  tier: ClientTier,
+  policy: RateLimitPolicy
+) {
+  const name = `${group}:${tier}`;
+  let limiter = limiters.get(name);
+  if (!limiter) {
+    limiter = createRateLimiter(
+      `ratelimit:${name}`,
+      policy.requests,
+      policy.windowSeconds
+    );
+    limiters.set(name, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Works out which route group a request belongs to. Sign-in routes count as
+ * admin traffic and autocomplete has its own limit; every other API route is
+ * a read or a write by its method.
+ * @param req - The incoming request.
+ */
+export function getRouteGroup(req: NextRequest): RouteGroup {
+  const { pathname } = req.nextUrl;
+  if (pathname.startsWith('/admin') || pathname.startsWith('/api/auth')) {
+    return 'admin';
+  }
+  if (pathname.startsWith('/api/suggest')) return 'suggest';
+  return ['GET', 'HEAD', 'OPTIONS'].includes(req.method)
+    ? 'apiRead'
+    : 'apiWrite';
+}
+
+async function sha256(text: string) {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Identifies the caller. Only an active API key gets the key's own limit;
+ * unknown, revoked or expired keys are counted like any other request, and
+ * the route still checks the key's scope. Only editors get the admin limit;
+ * other signed-in users are counted by IP like anyone else.
+ * @param req - The incoming request.
+ * @returns The caller's tier and the identifier it is counted under.
+ */
+export async function getClientTier(
+  req: NextRequest
+): Promise<{ tier: ClientTier; identifier: string }> {
+  const apiKey = getRequestApiKey(req);
+  // If the key cannot be checked it is counted like any other caller
+  const activeKey = apiKey && (await isActiveApiKey(apiKey).catch(() => false));
+  if (activeKey) {
+    return { tier: 'apiKey', identifier: await sha256(apiKey) };
+  }
+  const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET });
+  if (token?.email && hasRole(token.role, 'CAMPUS_EDITOR')) {
+    return { tier: 'admin', identifier: token.email.toLowerCase() };
+  }
+  const ip = getClientIp(req);
+  return isTrustedOrigin(req)
+    ? { tier: 'trustedOrigin', identifier: ip }
+    : { tier: 'anonymous', identifier: ip };
+}
+
+/**
+ * Counts a request against its policy.
+ * @param req - The incoming request.
+ * @returns Whether the request may continue, with the `RateLimit-*` headers
+ * to send and `Retry-After` when it may not.
+ */
+export async function checkRateLimit(req: NextRequest) {
+  const group = getRouteGroup(req);
+  const { tier, identifier } = await getClientTier(req);
+  const policies = RATE_LIMIT_POLICIES[group];
+  const policyTier = policies[tier] ? tier : 'anonymous';
+  const policy = policies[policyTier];
+
+  const { success, limit, remaining, reset } = await getLimiter(
+    group,
+    policyTier,
+    policy
+  ).limit(identifier);
+  const resetSeconds = Math.max(0, Math.ceil((reset - Date.now()) / 1000));
+  const headers: Record<string, string> = {
+    'RateLimit-Policy': `${policy.requests};w=${policy.windowSeconds}`,
+    'RateLimit-Limit': limit.toString(),
+    'RateLimit-Remaining': remaining.toString(),
+    'RateLimit-Reset': resetSeconds.toString()
+  };
+  if (!success) headers['Retry-After'] = resetSeconds.toString();
+  return { success, headers, group, tier: policyTier };
+}
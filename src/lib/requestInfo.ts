@@ -0,0 +1,48 @@
+/**
+ * Sites allowed to call the public API from the browser. Requests from these
+ * origins skip the user-agent checks, get a larger rate limit and have their
+ * origin echoed for CORS.
+ */
+export const TRUSTED_ORIGINS = [
+  'https://smccd.edu',
+  'https://www.smccd.edu',
+  'https://smccd.edu/portal',
+  'https://collegeofsanmateo.edu',
+  'https://canadacollege.edu',
+  'https://skylinecollege.edu',
+  process.env.NEXTAUTH_URL || 'http://localhost:3000'
+];
+
+// Keys look like sidx_<43 url-safe characters>
+export const API_KEY_PREFIX = 'sidx_';
+
+/**
+ * Returns the caller's IP address from the proxy headers.
+ * @param req - The incoming request.
+ */
+export function getClientIp(req: Request) {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  const realIp = req.headers.get('x-real-ip');
+  return forwardedFor?.split(',')[0] || realIp || '127.0.0.1';
+}
+
+/**
+ * Checks whether a request comes from one of the trusted origins.
+ * @param req - The incoming request.
+ */
+export function isTrustedOrigin(req: Request) {
+  const origin = req.headers.get('origin');
+  return !!origin && TRUSTED_ORIGINS.includes(origin);
+}
+
+/**
+ * Reads the API key from `Authorization: Bearer <key>` or `X-API-Key`.
+ * @param req - The incoming request.
+ * @returns The key, or `undefined` when the request doesn't carry one.
+ */
+export function getRequestApiKey(req: Request) {
+  const header = req.headers.get('authorization') || '';
+  const bearer = header.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const token = bearer || req.headers.get('x-api-key') || '';
+  return token.startsWith(API_KEY_PREFIX) ? token : undefined;
+}
@@ -0,0 +1,69 @@
+import type { Role } from '@prisma/client';
+import prisma from './prisma';
+
+const ROLE_RANK: Record<Role, number> = {
+  VIEWER: 0,
+  CAMPUS_EDITOR: 1,
+  DISTRICT_ADMIN: 2
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  VIEWER: 'Viewer',
+  CAMPUS_EDITOR: 'Campus Editor',
+  DISTRICT_ADMIN: 'District Admin'
+};
+
+/**
+ * Emails that are always treated as district admins, so a fresh database
+ * has someone who can hand out roles. Comma separated.
+ */
+const BOOTSTRAP_ADMINS = (process.env.DISTRICT_ADMIN_EMAILS || '')
+  .split(',')
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+/**
+ * Checks whether a role meets or exceeds the required role.
+ * @param role - The role of the current user (may be undefined when signed out).
+ * @param required - The minimum role needed.
+ */
+export function hasRole(role: Role | undefined, required: Role) {
+  if (!role) return false;
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Checks whether a user may change items belonging to a campus.
+ * District admins can edit everything; campus editors only their own campuses.
+ * @param user - The session user, with the role and campuses attached by the auth callbacks.
+ * @param campus - The campus of the item being changed.
+ */
+export function canEditCampus(
+  user: { role?: Role; campuses?: string[] } | undefined,
+  campus: string
+) {
+  if (hasRole(user?.role, 'DISTRICT_ADMIN')) return true;
+  return (
+    hasRole(user?.role, 'CAMPUS_EDITOR') &&
+    (user?.campuses ?? []).includes(campus)
+  );
+}
+
+/**
+ * Looks up the role and campuses stored for an email address.
+ * Users without an adminuser row are read-only viewers.
+ * @param email - The OneLogin session email.
+ */
+export async function getAccessForEmail(
+  email: string
+): Promise<{ role: Role; campuses: string[] }> {
+  const normalized = email.toLowerCase();
+  if (BOOTSTRAP_ADMINS.includes(normalized)) {
+    return { role: 'DISTRICT_ADMIN', campuses: [] };
+  }
+  const user = await prisma.adminuser.findUnique({
+    where: { email: normalized },
+    select: { role: true, campuses: true }
+  });
+  return { role: user?.role ?? 'VIEWER', campuses: user?.campuses ?? [] };
+}
@@ -0,0 +1,93 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+/**
+ * A search hit, with its relevance score and the title marked up with
+ * `<mark>` around the matched terms. The rest of the title is HTML-escaped.
+ */
+export interface SearchMatch {
+  id: string;
+  title: string;
+  url: string;
+  letter: string;
+  extraLetters: string[];
+  aliases: string[];
+  campus: string;
+  sharedCampuses: string[];
+  districtWide: boolean;
+  score: number;
+  highlight: string;
+}
+
+export interface SearchOptions {
+  campus?: string;
+  // Every match is returned when left out
+  limit?: number;
+}
+
+// Placeholders ts_headline wraps matches in, swapped for <mark> after escaping
+const MATCH_START = '\u0002';
+const MATCH_STOP = '\u0003';
+const HEADLINE_OPTIONS = `StartSel="${MATCH_START}", StopSel="${MATCH_STOP}", HighlightAll=true`;
+
+/**
+ * Turns free text into a prefix tsquery, so "finan aid" matches "Financial Aid".
+ * Only letters and digits are kept, which keeps the tsquery syntax safe.
+ */
+function toPrefixTsQuery(query: string) {
+  return query
+    .split(/[^A-Za-z0-9\u00C0-\u024F]+/)
+    .filter(Boolean)
+    .map((word) => `${word}:*`)
+    .join(' & ');
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Runs a ranked full-text search over titles, aliases and keywords, with
+ * trigram similarity on the title to catch typos like "finacial aid".
+ * @param query - The search text.
+ * @param options - Optional campus filter and result limit.
+ * @returns The matches, most relevant first.
+ */
+export async function rankedSearch(
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchMatch[]> {
+  const text = query.trim();
+  if (!text) return [];
+  const campusFilter = options.campus
+    ? Prisma.sql`AND (lower(i."campus") = lower(${options.campus})
+        OR ${options.campus} = ANY(i."sharedCampuses") OR i."districtWide")`
+    : Prisma.empty;
+
+  const rows = await prisma.$queryRaw<SearchMatch[]>`
+    SELECT i."id", i."title", i."url", i."letter", i."extraLetters", i."aliases",
+      i."campus", i."sharedCampuses", i."districtWide",
+      (ts_rank_cd(i."searchVector", q.tsq)
+        + greatest(similarity(i."title", ${text}), word_similarity(${text}, i."title"))
+      )::float8 AS "score",
+      ts_headline('english', i."title", q.tsq, ${HEADLINE_OPTIONS}) AS "highlight"
+    FROM "indexitem" i, to_tsquery('english', ${toPrefixTsQuery(text)}) AS q(tsq)
+    WHERE i."deletedAt" IS NULL
+      ${campusFilter}
+      AND (i."searchVector" @@ q.tsq OR i."title" % ${text} OR ${text} <% i."title")
+    ORDER BY "score" DESC, i."title" ASC
+    ${options.limit ? Prisma.sql`LIMIT ${options.limit}` : Prisma.empty}`;
+
+  return rows.map((row) => ({
+    ...row,
+    highlight: escapeHtml(row.highlight)
+      .split(MATCH_START)
+      .join('<mark>')
+      .split(MATCH_STOP)
+      .join('</mark>')
+  }));
+}
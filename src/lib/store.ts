@@ -0,0 +1,201 @@
+import { kv } from '@vercel/kv';
+import { Ratelimit } from '@upstash/ratelimit';
+import Redis from 'ioredis';
+
+/**
+ * Where cached API responses and rate limit counters are kept.
+ * - `vercel-kv`: Vercel KV, configured with KV_REST_API_URL and KV_REST_API_TOKEN.
+ * - `redis`: any Redis server, e.g. local Docker, configured with REDIS_URL.
+ * - `memory`: this process only; for local development and tests.
+ */
+export type StoreBackend = 'vercel-kv' | 'redis' | 'memory';
+
+const STORE_BACKENDS: StoreBackend[] = ['vercel-kv', 'redis', 'memory'];
+
+/**
+ * A key-value cache. Values are stored as JSON.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, options?: { ex?: number }): Promise<void>;
+  del(...keys: string[]): Promise<void>;
+  /** Adds one to a counter, starting from zero, and returns the new value. */
+  incr(key: string): Promise<number>;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  /** When the window resets, in milliseconds since the epoch. */
+  reset: number;
+}
+
+export interface RateLimiter {
+  limit(identifier: string): Promise<RateLimitResult>;
+}
+
+/**
+ * Picks the backend from CACHE_BACKEND. Without it, Vercel KV is used when
+ * its credentials are set, then Redis when REDIS_URL is, then memory.
+ */
+export function getStoreBackend(): StoreBackend {
+  const configured = process.env.CACHE_BACKEND as StoreBackend;
+  if (configured) {
+    if (!STORE_BACKENDS.includes(configured)) {
+      throw new Error(
+        `CACHE_BACKEND must be one of ${STORE_BACKENDS.join(', ')}`
+      );
+    }
+    return configured;
+  }
+  if (process.env.KV_REST_API_URL) return 'vercel-kv';
+  if (process.env.REDIS_URL) return 'redis';
+  return 'memory';
+}
+
+let redisClient: Redis | undefined;
+
+function getRedis() {
+  if (!redisClient) {
+    if (!process.env.REDIS_URL) {
+      throw new Error('REDIS_URL must be set to use the redis cache backend');
+    }
+    redisClient = new Redis(process.env.REDIS_URL, { lazyConnect: true });
+  }
+  return redisClient;
+}
+
+const vercelKvStore: CacheStore = {
+  get: (key) => kv.get(key),
+  async set(key, value, options) {
+    await (options?.ex
+      ? kv.set(key, value, { ex: options.ex })
+      : kv.set(key, value));
+  },
+  async del(...keys) {
+    if (keys.length > 0) await kv.del(...keys);
+  },
+  incr: (key) => kv.incr(key)
+};
+
+const redisStore: CacheStore = {
+  async get<T>(key: string) {
+    const value = await getRedis().get(key);
+    return value === null ? null : (JSON.parse(value) as T);
+  },
+  async set(key, value, options) {
+    const json = JSON.stringify(value);
+    await (options?.ex
+      ? getRedis().set(key, json, 'EX', options.ex)
+      : getRedis().set(key, json));
+  },
+  async del(...keys) {
+    if (keys.length > 0) await getRedis().del(...keys);
+  },
+  incr: (key) => getRedis().incr(key)
+};
+
+const memoryEntries = new Map<string, { json: string; expiresAt?: number }>();
+
+function readMemoryEntry(key: string) {
+  const entry = memoryEntries.get(key);
+  if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+    memoryEntries.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+const memoryStore: CacheStore = {
+  async get<T>(key: string) {
+    const entry = readMemoryEntry(key);
+    return entry ? (JSON.parse(entry.json) as T) : null;
+  },
+  async set(key, value, options) {
+    memoryEntries.set(key, {
+      json: JSON.stringify(value),
+      expiresAt: options?.ex ? Date.now() + options.ex * 1000 : undefined
+    });
+  },
+  async del(...keys) {
+    keys.forEach((key) => memoryEntries.delete(key));
+  },
+  async incr(key) {
+    const entry = readMemoryEntry(key);
+    const value = (entry ? (JSON.parse(entry.json) as number) : 0) + 1;
+    memoryEntries.set(key, { ...entry, json: JSON.stringify(value) });
+    return value;
+  }
+};
+
+let store: CacheStore | undefined;
+
+/**
+ * Returns the cache for the configured backend.
+ */
+export function getCache() {
+  if (!store) {
+    store = {
+      'vercel-kv': vercelKvStore,
+      redis: redisStore,
+      memory: memoryStore
+    }[getStoreBackend()];
+  }
+  return store;
+}
+
+/**
+ * Creates a rate limiter on the configured backend. Vercel KV uses a sliding
+ * window; Redis and memory count requests in fixed windows.
+ * @param prefix - Keeps this limiter's counters apart from others.
+ * @param requests - Requests allowed per window.
+ * @param windowSeconds - The window length.
+ */
+export function createRateLimiter(
+  prefix: string,
+  requests: number,
+  windowSeconds: number
+): RateLimiter {
+  const backend = getStoreBackend();
+  if (backend === 'vercel-kv') {
+    return new Ratelimit({
+      redis: kv,
+      limiter: Ratelimit.slidingWindow(requests, `${windowSeconds} s`),
+      prefix
+    });
+  }
+
+  const windowMs = windowSeconds * 1000;
+  const counters = new Map<string, { count: number; reset: number }>();
+  return {
+    async limit(identifier) {
+      const now = Date.now();
+      const reset = (Math.floor(now / windowMs) + 1) * windowMs;
+      const key = `${prefix}:${identifier}:${reset}`;
+      let count: number;
+      if (backend === 'redis') {
+        const [[, value]] = await getRedis()
+          .multi()
+          .incr(key)
+          .pexpire(key, windowMs)
+          .exec();
+        count = value as number;
+      } else {
+        counters.forEach((counter, counterKey) => {
+          if (counter.reset <= now) counters.delete(counterKey);
+        });
+        const counter = counters.get(key) ?? { count: 0, reset };
+        counter.count++;
+        counters.set(key, counter);
+        count = counter.count;
+      }
+      return {
+        success: count <= requests,
+        limit: requests,
+        remaining: Math.max(0, requests - count),
+        reset
+      };
+    }
+  };
+}
@@ -0,0 +1,87 @@
+import { getIndexCacheKey } from './cache';
+import { getCache } from './store';
+import { searchIndexItems } from './indexItems';
+import type { SearchMatch } from './search';
+
+/**
+ * A title to offer while someone types. Aliases point at the item they
+ * stand for, e.g. "Transcripts" with `aliasOf: 'Admissions & Records'`.
+ */
+export interface Suggestion {
+  id: string;
+  title: string;
+  url: string;
+  aliasOf?: string;
+}
+
+const MIN_SUGGEST_LENGTH = 2;
+const SUGGESTION_LIMIT = 8;
+const CACHE_TTL = 60 * 60; // 1 hour, matches the listings
+
+// Lowercase with accents removed, so "cafe" finds "Café"
+function foldText(text: string) {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+function containsWords(text: string, words: string[]) {
+  const folded = foldText(text);
+  return words.every((word) => folded.includes(word));
+}
+
+/**
+ * Suggests index titles for a partly typed query, most relevant first. Each
+ * match is offered under its title, or under the alias that was typed when
+ * the title does not contain the query. Results are cached per campus and
+ * dropped with the rest of that campus's cache when its items change.
+ * @param query - The text typed so far.
+ * @param campus - Optional campus name; items shared with it and district-wide items match too.
+ * @returns An object containing the suggestions or an error.
+ */
+export async function getSuggestions(query: string, campus?: string) {
+  try {
+    const text = query.trim().replace(/\s+/g, ' ');
+    if (text.length < MIN_SUGGEST_LENGTH) return { suggestions: [] };
+
+    const cache = getCache();
+    const cacheKey = await getIndexCacheKey(campus, 'suggest', foldText(text));
+    const cached = await cache.get<Suggestion[]>(cacheKey);
+    if (cached) return { suggestions: cached };
+
+    // Extra matches make up for titles dropped as repeats below
+    const { results, error } = await searchIndexItems(
+      text,
+      campus,
+      SUGGESTION_LIMIT * 2
+    );
+    if (error) throw error;
+
+    const words = foldText(text).split(' ');
+    const seen = new Set<string>();
+    const suggestions: Suggestion[] = [];
+    // A non-blank query always gets ranked matches, aliases included
+    for (const result of results as SearchMatch[]) {
+      if (suggestions.length === SUGGESTION_LIMIT) break;
+      const alias = containsWords(result.title, words)
+        ? undefined
+        : result.aliases.find((term) => containsWords(term, words));
+      const title = alias ?? result.title;
+      const key = foldText(title);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      suggestions.push({
+        id: result.id,
+        title,
+        url: result.url,
+        ...(alias ? { aliasOf: result.title } : {})
+      });
+    }
+
+    await cache.set(cacheKey, suggestions, { ex: CACHE_TTL });
+    return { suggestions };
+  } catch (error) {
+    return { error };
+  }
+}
@@ -0,0 +1,146 @@
+import prisma from './prisma';
+import { recordAudit, type AuditActor } from './audit';
+
+/**
+ * How long a deleted item stays restorable before it can be purged.
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the date after which an item deleted at `deletedAt` may be purged.
+ * @param deletedAt - When the item was moved to the trash.
+ */
+export function getPurgeDate(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_IN_MS);
+}
+
+/**
+ * Checks whether a trashed item has passed the retention period.
+ * @param deletedAt - When the item was moved to the trash.
+ */
+export function isPurgeable(deletedAt: Date) {
+  return getPurgeDate(deletedAt) <= new Date();
+}
+
+/**
+ * Retrieves every item in the trash, most recently deleted first.
+ * @returns An object containing the trashed items or an error.
+ */
+export async function getDeletedIndexItems() {
+  try {
+    const deletedItems = await prisma.indexitem.findMany({
+      where: { deletedAt: { not: null } },
+      select: {
+        id: true,
+        title: true,
+        url: true,
+        letter: true,
+        campus: true,
+        deletedAt: true
+      },
+      orderBy: { deletedAt: 'desc' }
+    });
+    return { deletedItems };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Moves an item out of the trash so it shows up in public queries again.
+ * @param id - The ID of the trashed index item.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @returns An object containing the restored item or an error.
+ */
+export async function restoreIndexItem(id: string, actor: AuditActor) {
+  try {
+    const restoredItem = await prisma.$transaction(async (tx) => {
+      const restored = await tx.indexitem.update({
+        where: { id, deletedAt: { not: null } },
+        data: { deletedAt: null },
+        select: {
+          id: true,
+          title: true,
+          url: true,
+          letter: true,
+          extraLetters: true,
+          aliases: true,
+          keywords: true,
+          campus: true,
+          sharedCampuses: true,
+          districtWide: true
+        }
+      });
+      await recordAudit(tx, 'RESTORE', id, actor, undefined, restored);
+      return restored;
+    });
+    return { restoredItem };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Permanently removes a trashed item once its retention period has passed.
+ * @param id - The ID of the trashed index item.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @returns An object containing the purged item or an error.
+ */
+export async function purgeIndexItem(id: string, actor: AuditActor) {
+  try {
+    const purgedItem = await prisma.$transaction(async (tx) => {
+      const purged = await tx.indexitem.delete({
+        where: {
+          id,
+          deletedAt: {
+            lte: new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_IN_MS)
+          }
+        },
+        select: {
+          id: true,
+          title: true,
+          url: true,
+          letter: true,
+          campus: true
+        }
+      });
+      await recordAudit(tx, 'PURGE', id, actor, purged);
+      return purged;
+    });
+    return { purgedItem };
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Purges every trashed item whose retention period has passed.
+ * @param actor - Who is making the change, recorded in the audit log.
+ * @returns An object containing the number of purged items or an error.
+ */
+export async function purgeExpiredIndexItems(actor: AuditActor) {
+  try {
+    const expired = await prisma.indexitem.findMany({
+      where: {
+        deletedAt: {
+          lte: new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_IN_MS)
+        }
+      },
+      select: { id: true }
+    });
+    let purgedCount = 0;
+    for (const { id } of expired) {
+      const { error } = await purgeIndexItem(id, actor);
+      if (error) {
+        console.error(`Error purging index item ${id}:`, error);
+      } else {
+        purgedCount++;
+      }
+    }
+    return { purgedCount };
+  } catch (error) {
+    return { error };
+  }
+}
@@ -0,0 +1,18 @@
+import type { Role } from '@prisma/client';
+import type { DefaultSession } from 'next-auth';
+
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      role?: Role;
+      campuses?: string[];
+    };
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    role?: Role;
+    campuses?: string[];
+  }
+}